@@ -6,6 +6,10 @@ const nextConfig: NextConfig = {
   experimental: {
     turbopackUseSystemTlsCerts: true,
   },
+  // Tenant-scoped launch URLs (/t/<client>/<company>/<game>) render the game; src/api/tenant.ts reads the segments.
+  async rewrites() {
+    return [{ source: "/t/:path*", destination: "/" }];
+  },
 };
 
 export default nextConfig;
@@ -1,3 +1,5 @@
+import { resolveApiBaseUrl } from "./endpoints";
+import { ApiClientError, fromApiError } from "./errors";
 import type { GameConfig } from "./types";
 
 type ConfigCodes = {
@@ -11,27 +13,17 @@ type LoginResponse = {
   token: string;
 };
 
-function resolveApiBaseUrl() {
-  const envUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
-  if (envUrl) {
-    return envUrl.replace(/\/+$/, "");
-  }
-
-  if (typeof window !== "undefined") {
-    const protocol = window.location.protocol;
-    const host = window.location.hostname;
-    return `${protocol}//${host}:4000`;
-  }
-
-  return "http://localhost:4000";
-}
-
 async function requestJson<T>(path: string, init?: RequestInit): Promise<T> {
-  const response = await fetch(`${resolveApiBaseUrl()}${path}`, init);
+  let response: Response;
+  try {
+    response = await fetch(`${resolveApiBaseUrl()}${path}`, init);
+  } catch (err) {
+    throw new ApiClientError("disconnected", "No se pudo contactar al servidor.", { cause: err });
+  }
   const body = await response.json().catch(() => ({}));
   if (!response.ok) {
     const message = body?.message || `Request failed with status ${response.status}`;
-    throw new Error(message);
+    throw fromApiError({ message, status: response.status, code: body?.code });
   }
   return body as T;
 }
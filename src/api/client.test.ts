@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiClientError } from "./errors";
+import type { GameRequestType } from "./transport";
+
+const flaky = vi.hoisted(() => ({
+  calls: [] as { type: GameRequestType; payload: Record<string, unknown> }[],
+  // Each queued entry fails one request before it reaches the mock server.
+  failures: [] as (() => ApiClientError)[],
+}));
+
+vi.mock("./transport", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./transport")>();
+  const { createMockTransport } = await import("./mock-transport");
+  const mock = createMockTransport("client", 0);
+  const transport: import("./transport").GameTransport = {
+    kind: "mock",
+    async request(type, payload, options) {
+      flaky.calls.push({ type, payload: payload as Record<string, unknown> });
+      const fail = flaky.failures.shift();
+      if (fail) throw fail();
+      return mock.request(type, payload, options);
+    },
+  };
+  return { ...actual, getTransport: () => transport };
+});
+
+const { fetchWallet, playTicket } = await import("./client");
+
+const ticket = { clientCode: "demo", companyCode: "demo", sessionId: "s-1", mode: "nivel1" as const, bet: 100 };
+const dropped = () => new ApiClientError("disconnected", "Conexion perdida.");
+
+function playCalls() {
+  return flaky.calls.filter((call) => call.type === "play.single");
+}
+
+describe("play retries", () => {
+  beforeEach(() => {
+    flaky.calls = [];
+    flaky.failures = [];
+  });
+
+  it("retries a dropped play with the same idempotency key and charges it once", async () => {
+    const { balance } = await fetchWallet();
+    flaky.failures = [dropped, () => new ApiClientError("timeout", "Sin respuesta.")];
+
+    const play = await playTicket(ticket);
+
+    const keys = playCalls().map((call) => call.payload.idempotencyKey);
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(1);
+    expect((await fetchWallet()).balance).toBe(balance - ticket.bet + play.totalWin);
+  });
+
+  it("gives up with the last error after three attempts", async () => {
+    const last = dropped();
+    flaky.failures = [dropped, dropped, () => last];
+
+    await expect(playTicket(ticket)).rejects.toBe(last);
+    expect(playCalls()).toHaveLength(3);
+  });
+
+  it("does not retry errors the server answered", async () => {
+    flaky.failures = [() => new ApiClientError("insufficient_funds", "Saldo insuficiente.")];
+
+    await expect(playTicket(ticket)).rejects.toMatchObject({ kind: "insufficient_funds" });
+    expect(playCalls()).toHaveLength(1);
+  });
+
+  it("stops retrying once the signal is aborted", async () => {
+    const controller = new AbortController();
+    flaky.failures = [
+      () => {
+        controller.abort();
+        return dropped();
+      },
+    ];
+
+    await expect(playTicket(ticket, { signal: controller.signal })).rejects.toMatchObject({ kind: "cancelled" });
+    expect(playCalls()).toHaveLength(1);
+  });
+});
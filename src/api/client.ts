@@ -1,175 +1,310 @@
+import { gameBus } from "@/game/events";
+import { createId } from "@/lib/ids";
+import {
+  decodeHistoryPage,
+  decodePackOutcome,
+  decodePackStreamEvent,
+  decodePendingPlay,
+  decodePlayOutcome,
+} from "./compact";
+import { ApiClientError, createCancelledError, isRetryableError } from "./errors";
+import { supportsCapability } from "./protocol";
+import {
+  applyAuthResult,
+  buildAuthPayload,
+  getSession,
+  getSessionId,
+  markAuthenticating,
+  markRefreshing,
+  markSessionExpired,
+  msUntilRefresh,
+  subscribeSession,
+  type PlayerSession,
+} from "./session";
+import { getTransport, type GameRequestType, type TransportRequestOptions } from "./transport";
 import type {
-  ApiError,
   GameConfig,
   GameMode,
+  HistoryPage,
+  HistoryQuery,
+  OutcomeEncoding,
   PackLevel,
   PackOutcome,
+  PackPlay,
   PackSize,
+  PackStreamHeader,
+  PendingPlayResult,
   PlayOutcome,
-  WsRequest,
-  WsResponse,
+  WalletBalance,
 } from "./types";
+import {
+  validateAuthResult,
+  validateGameConfig,
+  validateHistoryPage,
+  validatePackOutcome,
+  validatePackStreamComplete,
+  validatePackStreamEvent,
+  validatePendingPlayResult,
+  validatePlayOutcome,
+  validateWalletBalance,
+  ValidationError,
+} from "./validators";
 
-const WS_URL = process.env.NEXT_PUBLIC_WS_URL;
+export { getConnectionState, subscribeConnectionState } from "./connection-state";
+export { getSession, getSessionId, subscribeSession } from "./session";
+export { getHeartbeatStats, subscribe } from "./ws-transport";
 
-type PendingRequest = {
-  resolve: (value: unknown) => void;
-  reject: (reason?: unknown) => void;
-  timeoutId: ReturnType<typeof setTimeout>;
-};
+const PLAY_ATTEMPTS = 3;
 
-const pending = new Map<string, PendingRequest>();
-let socket: WebSocket | null = null;
-let connecting: Promise<WebSocket> | null = null;
+export type RequestOptions = Pick<TransportRequestOptions, "signal" | "timeoutMs">;
 
-function resolveWsUrl() {
-  if (WS_URL) return WS_URL;
-  if (typeof window === "undefined") {
-    throw new Error("WebSocket URL is not available on the server.");
-  }
-  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
-  const host = window.location.hostname;
-  const port = "4000";
-  return `${protocol}://${host}:${port}/ws`;
+export interface PackStreamHandlers {
+  /** Called when a (re)started stream announces the pack; tickets received before it are discarded. */
+  onHeader?: (header: PackStreamHeader) => void;
+  onPlay?: (play: PackPlay) => void;
+}
+
+export function createIdempotencyKey(): string {
+  return createId("play");
 }
 
-function handleSocketMessage(event: MessageEvent) {
-  let payload: WsResponse;
+async function send<TResponse>(
+  type: GameRequestType,
+  payload: unknown,
+  validate: (data: unknown) => TResponse,
+  options?: TransportRequestOptions,
+): Promise<TResponse> {
+  const transport = getTransport();
+  const startedAt = performance.now();
+  const reportLatency = (ok: boolean) =>
+    gameBus.emit("game:latency", {
+      requestType: type,
+      transport: transport.kind,
+      ms: Math.round(performance.now() - startedAt),
+      ok,
+    });
+
+  let data: unknown;
   try {
-    payload = JSON.parse(String(event.data));
+    data = await transport.request(type, payload, options);
   } catch (err) {
-    return;
+    reportLatency(false);
+    throw err;
   }
-
-  if (payload.type !== "response" || !payload.requestId) {
-    return;
+  reportLatency(true);
+  try {
+    return validate(data);
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      gameBus.emit("game:error", { message: err.message, path: err.path, requestType: type });
+    }
+    throw err;
   }
+}
 
-  const pendingRequest = pending.get(payload.requestId);
-  if (!pendingRequest) return;
-  clearTimeout(pendingRequest.timeoutId);
-  pending.delete(payload.requestId);
-
-  if (payload.ok) {
-    pendingRequest.resolve(payload.data);
-  } else {
-    const error: ApiError = payload.error ?? { message: "Unknown error" };
-    const wrapped = new Error(error.message);
-    (wrapped as Error & { status?: number }).status = error.status;
-    pendingRequest.reject(wrapped);
+function isSessionExpired(err: unknown): boolean {
+  return err instanceof ApiClientError && err.kind === "session_expired";
+}
+
+/** Authenticates with the launch token; resolves with null when the game runs without one. */
+export async function authenticateSession(options?: RequestOptions): Promise<PlayerSession | null> {
+  const payload = buildAuthPayload();
+  if (!payload) return null;
+  markAuthenticating();
+  try {
+    applyAuthResult(await send("session.auth", payload, validateAuthResult, options));
+    return getSession();
+  } catch (err) {
+    if (isSessionExpired(err)) markSessionExpired();
+    throw err;
   }
 }
 
-function rejectAllPending(reason: string) {
-  pending.forEach((value, key) => {
-    clearTimeout(value.timeoutId);
-    value.reject(new Error(reason));
-    pending.delete(key);
-  });
+/** Re-authenticates once when the server reports an expired session, then replays the request. */
+async function request<TResponse>(
+  type: GameRequestType,
+  payload: unknown,
+  validate: (data: unknown) => TResponse,
+  options?: TransportRequestOptions,
+): Promise<TResponse> {
+  try {
+    return await send(type, payload, validate, options);
+  } catch (err) {
+    if (!isSessionExpired(err)) throw err;
+    if (!buildAuthPayload()) {
+      markSessionExpired();
+      throw err;
+    }
+    await authenticateSession({ signal: options?.signal });
+    return send(type, payload, validate, options);
+  }
 }
 
-async function ensureSocket(): Promise<WebSocket> {
-  if (socket && socket.readyState === WebSocket.OPEN) {
-    return socket;
+/** Authenticates HTTP and mock sessions up front and keeps every session refreshed before it expires. */
+export function startPlayerSession(): () => void {
+  let refreshId: ReturnType<typeof setTimeout> | null = null;
+  const clearRefresh = () => {
+    if (refreshId) clearTimeout(refreshId);
+    refreshId = null;
+  };
+
+  // The WebSocket authenticates during its own handshake.
+  if (getTransport().kind !== "ws") {
+    authenticateSession().catch(() => {});
   }
-  if (connecting) return connecting;
-
-  connecting = new Promise((resolve, reject) => {
-    const url = resolveWsUrl();
-    const ws = new WebSocket(url);
-    socket = ws;
-    let opened = false;
-
-    const cleanup = () => {
-      ws.removeEventListener("open", onOpen);
-      ws.removeEventListener("error", onError);
-      ws.removeEventListener("close", onClose);
-    };
-
-    const onOpen = () => {
-      cleanup();
-      opened = true;
-      ws.addEventListener("message", handleSocketMessage);
-      ws.addEventListener("close", onClose);
-      connecting = null;
-      resolve(ws);
-    };
-
-    const onError = () => {
-      cleanup();
-      connecting = null;
-      reject(new Error("WebSocket connection failed."));
-    };
-
-    const onClose = () => {
-      if (socket === ws) {
-        socket = null;
-      }
-      rejectAllPending("WebSocket connection closed.");
-      if (!opened) {
-        connecting = null;
-        reject(new Error("WebSocket connection closed before opening."));
-      }
-    };
-
-    ws.addEventListener("open", onOpen);
-    ws.addEventListener("error", onError);
-    ws.addEventListener("close", onClose);
+  const unsubscribe = subscribeSession(() => {
+    clearRefresh();
+    const delay = msUntilRefresh();
+    if (delay === null) return;
+    refreshId = setTimeout(() => {
+      markRefreshing();
+      authenticateSession().catch(() => {});
+    }, delay);
   });
 
-  return connecting;
+  return () => {
+    clearRefresh();
+    unsubscribe();
+  };
 }
 
-async function wsRequest<TResponse, TPayload = unknown>(
-  type: string,
-  payload?: TPayload,
-  timeoutMs = 15000,
+async function idempotentRequest<TResponse>(
+  type: GameRequestType,
+  payload: { idempotencyKey: string },
+  validate: (data: unknown) => TResponse,
+  options: Omit<TransportRequestOptions, "retryOnReconnect"> = {},
 ): Promise<TResponse> {
-  const ws = await ensureSocket();
-  const requestId =
-    typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `req-${Date.now()}-${Math.random()}`;
-
-  const message: WsRequest<TPayload> = { type, requestId, payload };
-
-  return new Promise<TResponse>((resolve, reject) => {
-    const timeoutId = setTimeout(() => {
-      pending.delete(requestId);
-      reject(new Error("WebSocket request timed out."));
-    }, timeoutMs);
-    const wrappedResolve = (value: unknown) => {
-      resolve(value as TResponse);
-    };
-    pending.set(requestId, { resolve: wrappedResolve, reject, timeoutId });
-    ws.send(JSON.stringify(message));
+  let lastError: unknown;
+  for (let attempt = 0; attempt < PLAY_ATTEMPTS; attempt += 1) {
+    if (options.signal?.aborted) throw createCancelledError();
+    try {
+      return await request(type, payload, validate, { ...options, retryOnReconnect: true });
+    } catch (err) {
+      lastError = err;
+      if (!isRetryableError(err)) throw err;
+    }
+  }
+  throw lastError;
+}
+
+/** Asks for the compact outcome encoding when the server offered it; the decoders also accept full outcomes. */
+function outcomeEncoding(): { encoding?: OutcomeEncoding } {
+  return supportsCapability("compact-outcomes") ? { encoding: "compact" } : {};
+}
+
+export async function fetchConfig(
+  params: {
+    clientCode: string;
+    companyCode: string;
+    gameCode: string;
+  },
+  options: RequestOptions = {},
+): Promise<GameConfig> {
+  return request("config.get", params, validateGameConfig, { ...options, retryOnReconnect: true });
+}
+
+export async function fetchWallet(options: RequestOptions = {}): Promise<WalletBalance> {
+  return request("wallet.get", { sessionId: getSessionId() }, validateWalletBalance, {
+    ...options,
+    retryOnReconnect: true,
   });
 }
 
-export async function fetchConfig(params: {
-  clientCode: string;
-  companyCode: string;
-  gameCode: string;
-}): Promise<GameConfig> {
-  return wsRequest<GameConfig>("config.get", params);
-}
-
-export async function playTicket(payload: {
-  clientCode: string;
-  companyCode: string;
-  sessionId: string;
-  mode: GameMode;
-  bet: number;
-}): Promise<PlayOutcome> {
-  return wsRequest<PlayOutcome>("play.single", payload);
-}
-
-export async function playPack(payload: {
-  clientCode: string;
-  companyCode: string;
-  sessionId: string;
-  mode: Extract<GameMode, "pack" | "nivel1" | "nivel2">;
-  packLevel: PackLevel;
-  bet: number;
-  packSize: PackSize;
-}): Promise<PackOutcome> {
-  return wsRequest<PackOutcome>("play.pack", payload);
+export async function fetchHistory(query: HistoryQuery, options: RequestOptions = {}): Promise<HistoryPage> {
+  return request(
+    "history.list",
+    { sessionId: getSessionId(), ...query, ...outcomeEncoding() },
+    (data) => validateHistoryPage(decodeHistoryPage(data)),
+    { ...options, retryOnReconnect: true },
+  );
+}
+
+export async function fetchPendingPlay(options: RequestOptions = {}): Promise<PendingPlayResult> {
+  return request(
+    "play.pending",
+    { sessionId: getSessionId(), ...outcomeEncoding() },
+    (data) => validatePendingPlayResult(decodePendingPlay(data)),
+    { ...options, retryOnReconnect: true },
+  );
+}
+
+/** Tells the server a ticket was shown to the end, so `play.pending` stops returning it. */
+export async function finishPlay(playId: string, options: RequestOptions = {}): Promise<void> {
+  await request("play.finish", { sessionId: getSessionId(), playId }, () => undefined, options);
+}
+
+export async function playTicket(
+  payload: {
+    clientCode: string;
+    companyCode: string;
+    sessionId: string;
+    mode: GameMode;
+    bet: number;
+    idempotencyKey?: string;
+  },
+  options?: RequestOptions,
+): Promise<PlayOutcome> {
+  const { idempotencyKey = createIdempotencyKey(), ...rest } = payload;
+  return idempotentRequest(
+    "play.single",
+    { ...rest, idempotencyKey, ...outcomeEncoding() },
+    (data) => validatePlayOutcome(decodePlayOutcome(data)),
+    options,
+  );
+}
+
+export async function playPack(
+  payload: {
+    clientCode: string;
+    companyCode: string;
+    sessionId: string;
+    mode: Extract<GameMode, "pack" | "nivel1" | "nivel2">;
+    packLevel: PackLevel;
+    bet: number;
+    packSize: PackSize;
+    idempotencyKey?: string;
+  },
+  options: RequestOptions & PackStreamHandlers = {},
+): Promise<PackOutcome> {
+  const { idempotencyKey = createIdempotencyKey(), ...rest } = payload;
+  const { onHeader, onPlay, ...requestOptions } = options;
+  if ((!onHeader && !onPlay) || !supportsCapability("pack-stream")) {
+    return idempotentRequest(
+      "play.pack",
+      { ...rest, idempotencyKey, ...outcomeEncoding() },
+      (data) => validatePackOutcome(decodePackOutcome(data)),
+      requestOptions,
+    );
+  }
+
+  let header: PackStreamHeader | null = null;
+  let plays: PackPlay[] = [];
+  const onChunk = (chunk: unknown) => {
+    const event = validatePackStreamEvent(decodePackStreamEvent(chunk));
+    if (event.event === "header") {
+      header = event.data;
+      plays = [];
+      onHeader?.(event.data);
+      return;
+    }
+    plays = [...plays.filter((play) => play.ticketIndex !== event.data.ticketIndex), event.data];
+    onPlay?.(event.data);
+  };
+  // Backends without streaming answer with the whole PackOutcome, which is accepted as is.
+  const assemble = (data: unknown): PackOutcome => {
+    if (!header) return validatePackOutcome(decodePackOutcome(data));
+    const complete = validatePackStreamComplete(data);
+    return validatePackOutcome({
+      packId: header.packId,
+      packLevel: header.packLevel,
+      totalBet: header.totalBet,
+      plays: [...plays].sort((a, b) => a.ticketIndex - b.ticketIndex),
+      totalWin: complete.totalWin,
+      bestIndex: complete.bestIndex,
+      balanceBefore: complete.balanceBefore,
+      balanceAfter: complete.balanceAfter,
+    });
+  };
+  const streamPayload = { ...rest, idempotencyKey, stream: true, ...outcomeEncoding() };
+  return idempotentRequest("play.pack", streamPayload, assemble, { ...requestOptions, onChunk });
 }
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { createRng } from "@/lib/rng";
+import {
+  decodePackOutcome,
+  decodePackStreamEvent,
+  decodePlayOutcome,
+  encodePackOutcome,
+  encodePlayOutcome,
+} from "./compact";
+import { createMockConfig, simulatePack, simulatePlay } from "./mock-engine";
+import { validatePackOutcome, validatePlayOutcome, ValidationError } from "./validators";
+
+const config = createMockConfig({ clientCode: "demo", companyCode: "demo", gameCode: "e-instant" });
+
+function pack(seed: string) {
+  return simulatePack(config, {
+    packId: "pack-1",
+    packLevel: "nivel2",
+    packSize: 20,
+    bet: 100,
+    rng: createRng(seed),
+  });
+}
+
+describe("compact outcome encoding", () => {
+  it("rebuilds the exact plays, bonus steps included", () => {
+    for (let idx = 0; idx < 30; idx += 1) {
+      const rng = createRng(idx);
+      const play = simulatePlay(config, { playId: `p-${idx}`, level: "nivel1", mode: "nivel1", bet: 100, rng });
+      expect(validatePlayOutcome(decodePlayOutcome(encodePlayOutcome(play)))).toEqual(play);
+    }
+  });
+
+  it("rebuilds packs and shrinks them on the wire", () => {
+    const original = pack("compact");
+    const encoded = encodePackOutcome(original);
+    expect(validatePackOutcome(decodePackOutcome(encoded))).toEqual(original);
+    expect(JSON.stringify(encoded).length).toBeLessThan(JSON.stringify(original).length * 0.6);
+  });
+
+  it("decodes streamed tickets and leaves full outcomes untouched", () => {
+    const original = pack("stream");
+    const chunk = { event: "play", data: encodePlayOutcome(original.plays[3]) };
+    expect(decodePackStreamEvent(chunk)).toEqual({ event: "play", data: original.plays[3] });
+    expect(decodePackOutcome(original)).toBe(original);
+    expect(decodePlayOutcome(original.plays[0])).toBe(original.plays[0]);
+  });
+
+  it("rejects indices outside the symbol table or the board", () => {
+    const encoded = encodePlayOutcome(pack("broken").plays[0]);
+    expect(() => decodePlayOutcome({ ...encoded, grid0: [99, ...encoded.grid0.slice(1)] })).toThrow(ValidationError);
+    expect(() => decodePlayOutcome({ ...encoded, grid0: encoded.grid0.slice(1) })).toThrow("play.grid0");
+    const cascades = [{ removeCells: [encoded.rows * encoded.cols], dropIn: [], winStep: 0 }];
+    expect(() => decodePlayOutcome({ ...encoded, cascades })).toThrow("play.cascades[0].removeCells[0]");
+  });
+});
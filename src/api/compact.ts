@@ -0,0 +1,246 @@
+import type {
+  BonusCell,
+  BonusRound,
+  CascadeStep,
+  CellRef,
+  CompactCascadeStep,
+  CompactGrid,
+  CompactPackOutcome,
+  CompactPlay,
+  CompactPlayOutcome,
+  PackOutcome,
+  PackPlay,
+  PlayOutcome,
+} from "./types";
+import { ValidationError } from "./validators";
+
+type Board = CompactGrid;
+
+const BONUS_CELL_TYPES: BonusCell["type"][] = ["prize", "end", "level-up"];
+
+function isCompact(value: unknown): value is { encoding: "compact" } {
+  return typeof value === "object" && value !== null && (value as { encoding?: unknown }).encoding === "compact";
+}
+
+function list<T>(value: T[] | undefined, path: string): T[] {
+  if (!Array.isArray(value)) throw new ValidationError(path, "expected an array");
+  return value;
+}
+
+function symbolAt(board: Board, index: number, path: string): string {
+  const symbol = Number.isInteger(index) ? board.symbols[index] : undefined;
+  if (symbol === undefined) throw new ValidationError(path, `unknown symbol index ${index}`);
+  return symbol;
+}
+
+function cellAt(board: Board, index: number, path: string): CellRef {
+  if (!Number.isInteger(index) || index < 0 || index >= board.rows * board.cols) {
+    throw new ValidationError(path, `cell index ${index} out of bounds (0..${board.rows * board.cols - 1})`);
+  }
+  return { row: Math.floor(index / board.cols), col: index % board.cols };
+}
+
+function decodeBonusRound(round: number[], path: string): BonusRound {
+  const [pick, ...fields] = list(round, path);
+  if (fields.length % 3 !== 0) throw new ValidationError(path, "expected a pick and type/multiplier/amount triples");
+  const cells: BonusCell[] = [];
+  for (let field = 0; field < fields.length; field += 3) {
+    const type = BONUS_CELL_TYPES[fields[field]];
+    if (!type) throw new ValidationError(`${path}[${field + 1}]`, `unknown bonus cell type ${fields[field]}`);
+    cells.push({ type, multiplier: fields[field + 1], amount: fields[field + 2] });
+  }
+  return { cells, pick };
+}
+
+function encodeBonusRound({ cells, pick }: BonusRound): number[] {
+  return [pick, ...cells.flatMap((cell) => [BONUS_CELL_TYPES.indexOf(cell.type), cell.multiplier, cell.amount])];
+}
+
+function toMatrix(cells: string[], cols: number): string[][] {
+  const rows: string[][] = [];
+  for (let start = 0; start < cells.length; start += cols) rows.push(cells.slice(start, start + cols));
+  return rows;
+}
+
+function decodeSteps(board: Board, grid0: string[], steps: CompactCascadeStep[], path: string): CascadeStep[] {
+  let previous = grid0;
+  return steps.map((step, idx) => {
+    const stepPath = `${path}[${idx}]`;
+    const { removeCells, dropIn, gridAfter, bonusData, ...rest } = step;
+    const decoded: CascadeStep = {
+      ...rest,
+      removeCells: list(removeCells, `${stepPath}.removeCells`).map((cell, cellIdx) =>
+        cellAt(board, cell, `${stepPath}.removeCells[${cellIdx}]`),
+      ),
+      dropIn: list(dropIn, `${stepPath}.dropIn`).map((drop, dropIdx) => ({
+        col: drop.col,
+        symbols: list(drop.symbols, `${stepPath}.dropIn[${dropIdx}].symbols`).map((symbol, symbolIdx) =>
+          symbolAt(board, symbol, `${stepPath}.dropIn[${dropIdx}].symbols[${symbolIdx}]`),
+        ),
+      })),
+    };
+    if (gridAfter !== undefined) {
+      const changes = list(gridAfter, `${stepPath}.gridAfter`);
+      if (changes.length % 2 !== 0) throw new ValidationError(`${stepPath}.gridAfter`, "expected cell/symbol pairs");
+      const next = [...previous];
+      for (let pair = 0; pair < changes.length; pair += 2) {
+        const cell = cellAt(board, changes[pair], `${stepPath}.gridAfter[${pair}]`);
+        const symbol = symbolAt(board, changes[pair + 1], `${stepPath}.gridAfter[${pair + 1}]`);
+        next[cell.row * board.cols + cell.col] = symbol;
+      }
+      decoded.gridAfter = toMatrix(next, board.cols);
+      previous = next;
+    }
+    if (bonusData) {
+      const { triggerCells, rounds, ...bonus } = bonusData;
+      decoded.bonusData = {
+        ...bonus,
+        rounds: list(rounds, `${stepPath}.bonusData.rounds`).map((round, roundIdx) =>
+          decodeBonusRound(round, `${stepPath}.bonusData.rounds[${roundIdx}]`),
+        ),
+      };
+      if (triggerCells) {
+        decoded.bonusData.triggerCells = list(triggerCells, `${stepPath}.bonusData.triggerCells`).map((cell, cellIdx) =>
+          cellAt(board, cell, `${stepPath}.bonusData.triggerCells[${cellIdx}]`),
+        );
+      }
+    }
+    return decoded;
+  });
+}
+
+function balances(balanceBefore?: number, balanceAfter?: number) {
+  return {
+    ...(balanceBefore === undefined ? {} : { balanceBefore }),
+    ...(balanceAfter === undefined ? {} : { balanceAfter }),
+  };
+}
+
+function decodePlay(board: Board, play: CompactPlay, path: string): PlayOutcome & { ticketIndex?: number } {
+  const { playId, mode, bet, ticketIndex, grid0, cascades, totalWin, balanceBefore, balanceAfter } = play;
+  const cells = list(grid0, `${path}.grid0`).map((symbol, idx) => symbolAt(board, symbol, `${path}.grid0[${idx}]`));
+  if (cells.length !== board.rows * board.cols) {
+    throw new ValidationError(`${path}.grid0`, `expected ${board.rows * board.cols} cells, got ${cells.length}`);
+  }
+  return {
+    playId,
+    mode,
+    bet,
+    ...(ticketIndex === undefined ? {} : { ticketIndex }),
+    grid0: toMatrix(cells, board.cols),
+    cascades: decodeSteps(board, cells, list(cascades, `${path}.cascades`), `${path}.cascades`),
+    totalWin,
+    ...balances(balanceBefore, balanceAfter),
+  };
+}
+
+/** Rebuilds a full PlayOutcome (or PackPlay) from the compact form; anything else is returned untouched. */
+export function decodePlayOutcome(value: unknown, path = "play"): unknown {
+  if (!isCompact(value)) return value;
+  const play = value as CompactPlayOutcome;
+  return decodePlay({ symbols: list(play.symbols, `${path}.symbols`), rows: play.rows, cols: play.cols }, play, path);
+}
+
+/** Rebuilds a full PackOutcome from the compact form; anything else is returned untouched. */
+export function decodePackOutcome(value: unknown, path = "pack"): unknown {
+  if (!isCompact(value)) return value;
+  const { symbols, rows, cols, packId, packLevel, plays, totalBet, totalWin, bestIndex, balanceBefore, balanceAfter } =
+    value as CompactPackOutcome;
+  const board = { symbols: list(symbols, `${path}.symbols`), rows, cols };
+  return {
+    packId,
+    packLevel,
+    plays: list(plays, `${path}.plays`).map((play, idx) => decodePlay(board, play, `${path}.plays[${idx}]`)),
+    totalBet,
+    totalWin,
+    ...(bestIndex === undefined ? {} : { bestIndex }),
+    ...balances(balanceBefore, balanceAfter),
+  };
+}
+
+/** History entries are encoded one by one, like standalone plays and packs. */
+export function decodeHistoryPage(value: unknown, path = "history"): unknown {
+  const record = value as { entries?: unknown } | null;
+  if (!record || !Array.isArray(record.entries)) return value;
+  return {
+    ...record,
+    entries: record.entries.map((entry: { kind?: unknown; outcome?: unknown }, idx) => {
+      const outcomePath = `${path}.entries[${idx}].outcome`;
+      if (!entry || !isCompact(entry.outcome)) return entry;
+      const decode = entry.kind === "pack" ? decodePackOutcome : decodePlayOutcome;
+      return { ...entry, outcome: decode(entry.outcome, outcomePath) };
+    }),
+  };
+}
+
+export function decodePendingPlay(value: unknown, path = "pending"): unknown {
+  const record = value as { play?: unknown } | null;
+  if (!record || !isCompact(record.play)) return value;
+  return { ...record, play: decodePlayOutcome(record.play, `${path}.play`) };
+}
+
+/** Streamed pack tickets arrive as standalone compact plays. */
+export function decodePackStreamEvent(value: unknown, path = "packStream"): unknown {
+  const record = value as { event?: unknown; data?: unknown } | null;
+  if (!record || record.event !== "play" || !isCompact(record.data)) return value;
+  return { ...record, data: decodePlayOutcome(record.data, `${path}.data`) };
+}
+
+function createBoard(plays: readonly PlayOutcome[]): Board & { index: Map<string, number> } {
+  const index = new Map<string, number>();
+  const add = (symbol: string) => {
+    if (!index.has(symbol)) index.set(symbol, index.size);
+  };
+  plays.forEach((play) => {
+    play.grid0.flat().forEach(add);
+    play.cascades.forEach((step) => {
+      step.dropIn.forEach((drop) => drop.symbols.forEach(add));
+      step.gridAfter?.flat().forEach(add);
+    });
+  });
+  const first = plays[0]?.grid0;
+  return { symbols: Array.from(index.keys()), rows: first?.length ?? 0, cols: first?.[0]?.length ?? 0, index };
+}
+
+function encodePlay(board: Board & { index: Map<string, number> }, play: PlayOutcome | PackPlay): CompactPlay {
+  const { grid0, cascades, ...fields } = play;
+  const toCell = (cell: CellRef) => cell.row * board.cols + cell.col;
+  const toSymbol = (symbol: string) => board.index.get(symbol) as number;
+  const cells = grid0.flat().map(toSymbol);
+  let previous = cells;
+  return {
+    ...fields,
+    grid0: cells,
+    cascades: cascades.map(({ removeCells, dropIn, gridAfter, bonusData, ...rest }) => {
+      const step: CompactCascadeStep = {
+        ...rest,
+        removeCells: removeCells.map(toCell),
+        dropIn: dropIn.map((drop) => ({ col: drop.col, symbols: drop.symbols.map(toSymbol) })),
+      };
+      if (gridAfter) {
+        const next = gridAfter.flat().map(toSymbol);
+        step.gridAfter = next.flatMap((symbol, cell) => (symbol === previous[cell] ? [] : [cell, symbol]));
+        previous = next;
+      }
+      if (bonusData) {
+        const { triggerCells, rounds, ...bonus } = bonusData;
+        step.bonusData = { ...bonus, rounds: rounds.map(encodeBonusRound) };
+        if (triggerCells) step.bonusData.triggerCells = triggerCells.map(toCell);
+      }
+      return step;
+    }),
+  };
+}
+
+/** Server-side shape of the compact encoding; the mock transport and tests use it to produce compact payloads. */
+export function encodePlayOutcome(play: PlayOutcome | PackPlay): CompactPlayOutcome {
+  const { index, ...board } = createBoard([play]);
+  return { encoding: "compact", ...board, ...encodePlay({ ...board, index }, play) };
+}
+
+export function encodePackOutcome(pack: PackOutcome): CompactPackOutcome {
+  const { plays, ...fields } = pack;
+  const { index, ...board } = createBoard(plays);
+  const encoded = plays.map((play) => encodePlay({ ...board, index }, play));
+  return { encoding: "compact", ...board, ...fields, plays: encoded };
+}
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMockConfig } from "./mock-engine";
+import { configVersion, readCachedConfig, writeCachedConfig } from "./config-cache";
+
+const key = { clientCode: "acme", companyCode: "acme", gameCode: "e-instant" };
+const config = createMockConfig(key);
+
+describe("config cache", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("stores configs per client, company and game", () => {
+    writeCachedConfig(key, config);
+    expect(readCachedConfig(key)?.config).toEqual(config);
+    expect(readCachedConfig({ ...key, gameCode: "other" })).toBeNull();
+  });
+
+  it("prefers the server version and falls back to a content hash", () => {
+    expect(configVersion({ ...config, version: "42" })).toBe("42");
+    expect(configVersion(config)).toBe(configVersion(structuredClone(config)));
+    expect(configVersion(config)).not.toBe(configVersion({ ...config, packSizes: [5] }));
+  });
+
+  it("drops entries that no longer pass validation", () => {
+    window.localStorage.setItem("piloto_config:acme:acme:e-instant", JSON.stringify({ version: "1", config: {} }));
+    expect(readCachedConfig(key)).toBeNull();
+    expect(window.localStorage.getItem("piloto_config:acme:acme:e-instant")).toBeNull();
+  });
+});
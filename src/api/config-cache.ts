@@ -0,0 +1,52 @@
+import { hashString } from "@/lib/hash";
+import type { TenantCodes } from "./tenant";
+import type { GameConfig } from "./types";
+import { validateGameConfig } from "./validators";
+
+const STORAGE_PREFIX = "piloto_config";
+
+interface CachedConfig {
+  version: string;
+  savedAt: number;
+  config: GameConfig;
+}
+
+function storageKey(key: TenantCodes) {
+  return `${STORAGE_PREFIX}:${key.clientCode}:${key.companyCode}:${key.gameCode}`;
+}
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+export function configVersion(config: GameConfig): string {
+  return config.version ?? `h${hashString(JSON.stringify(config)).toString(16)}`;
+}
+
+/** Returns the stored config for the tenant, or null when missing or no longer valid for this client build. */
+export function readCachedConfig(key: TenantCodes): CachedConfig | null {
+  const raw = getStorage()?.getItem(storageKey(key));
+  if (!raw) return null;
+  try {
+    const entry = JSON.parse(raw) as CachedConfig;
+    validateGameConfig(entry.config);
+    return typeof entry.version === "string" ? entry : null;
+  } catch {
+    getStorage()?.removeItem(storageKey(key));
+    return null;
+  }
+}
+
+export function writeCachedConfig(key: TenantCodes, config: GameConfig): CachedConfig {
+  const entry: CachedConfig = { version: configVersion(config), savedAt: Date.now(), config };
+  try {
+    getStorage()?.setItem(storageKey(key), JSON.stringify(entry));
+  } catch {
+    // Quota or privacy settings; the config still works, it just is not cached.
+  }
+  return entry;
+}
@@ -1,9 +1,39 @@
-import { fetchConfig } from "./client";
+import { fetchConfig, type RequestOptions } from "./client";
+import { configVersion, readCachedConfig, writeCachedConfig } from "./config-cache";
+import { resolveTenant } from "./tenant";
 import type { GameConfig } from "./types";
 
-export async function loadGameConfig(): Promise<GameConfig> {
-  const clientCode = process.env.NEXT_PUBLIC_CLIENT_CODE ?? "demo";
-  const companyCode = process.env.NEXT_PUBLIC_COMPANY_CODE ?? "demo";
-  const gameCode = process.env.NEXT_PUBLIC_GAME_CODE ?? "e-instant";
-  return fetchConfig({ clientCode, companyCode, gameCode });
+export interface LoadConfigOptions extends RequestOptions {
+  /** Called after a background revalidation found a different version than the one returned. */
+  onRevalidated?: (config: GameConfig) => void;
+}
+
+/** Fetches the config and stores it; resolves with it only when its version differs from the cached one. */
+export async function revalidateGameConfig(options?: RequestOptions): Promise<GameConfig | null> {
+  const key = resolveTenant();
+  const previous = readCachedConfig(key)?.version;
+  const fresh = await fetchConfig(key, options);
+  writeCachedConfig(key, fresh);
+  return configVersion(fresh) === previous ? null : fresh;
+}
+
+/** Stale-while-revalidate: answers from the cache when possible and refreshes it in the background. */
+export async function loadGameConfig(options: LoadConfigOptions = {}): Promise<GameConfig> {
+  const { onRevalidated, ...requestOptions } = options;
+  const key = resolveTenant();
+  const cached = readCachedConfig(key);
+  if (!cached) {
+    const fresh = await fetchConfig(key, requestOptions);
+    writeCachedConfig(key, fresh);
+    return fresh;
+  }
+
+  revalidateGameConfig(requestOptions)
+    .then((fresh) => {
+      if (fresh && !requestOptions.signal?.aborted) onRevalidated?.(fresh);
+    })
+    .catch(() => {
+      // The cached config keeps the game playable; the next load retries.
+    });
+  return cached.config;
 }
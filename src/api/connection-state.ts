@@ -0,0 +1,26 @@
+import { gameBus } from "@/game/events";
+import type { ConnectionState } from "./types";
+
+type ConnectionListener = (state: ConnectionState) => void;
+
+const listeners = new Set<ConnectionListener>();
+let current: ConnectionState = "connecting";
+
+export function setConnectionState(next: ConnectionState, attempt = 0) {
+  if (next === current && next !== "reconnecting") return;
+  current = next;
+  listeners.forEach((listener) => listener(next));
+  gameBus.emit("game:connection:state", { state: next, attempt });
+}
+
+export function getConnectionState(): ConnectionState {
+  return current;
+}
+
+export function subscribeConnectionState(listener: ConnectionListener): () => void {
+  listeners.add(listener);
+  listener(current);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,27 @@
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL;
+
+export function resolveWsUrl() {
+  if (WS_URL) return WS_URL;
+  if (typeof window === "undefined") {
+    throw new Error("WebSocket URL is not available on the server.");
+  }
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  const host = window.location.hostname;
+  const port = "4000";
+  return `${protocol}://${host}:${port}/ws`;
+}
+
+export function resolveApiBaseUrl() {
+  const envUrl = process.env.NEXT_PUBLIC_API_BASE_URL;
+  if (envUrl) {
+    return envUrl.replace(/\/+$/, "");
+  }
+
+  if (typeof window !== "undefined") {
+    const protocol = window.location.protocol;
+    const host = window.location.hostname;
+    return `${protocol}//${host}:4000`;
+  }
+
+  return "http://localhost:4000";
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+  ApiClientError,
+  createCancelledError,
+  fromApiError,
+  isCancelledError,
+  isRetryableError,
+  toApiClientError,
+} from "./errors";
+import { ValidationError } from "./validators";
+
+describe("fromApiError", () => {
+  it("prefers the server code over the status", () => {
+    expect(fromApiError({ message: "no funds", status: 400, code: "insufficient_funds" }).kind).toBe(
+      "insufficient_funds",
+    );
+  });
+
+  it("falls back to the status and then to unknown", () => {
+    expect(fromApiError({ message: "slow down", status: 429 }).kind).toBe("rate_limited");
+    expect(fromApiError({ message: "down", status: 503 }).kind).toBe("maintenance");
+    expect(fromApiError({ message: "boom", status: 500 }).kind).toBe("unknown");
+  });
+});
+
+describe("retryability", () => {
+  it("only treats timeouts and disconnects as retryable", () => {
+    expect(isRetryableError(new ApiClientError("timeout", "t"))).toBe(true);
+    expect(isRetryableError(new ApiClientError("disconnected", "d"))).toBe(true);
+    expect(isRetryableError(new ApiClientError("insufficient_funds", "f"))).toBe(false);
+    expect(isRetryableError(new Error("plain"))).toBe(false);
+  });
+
+  it("never retries a cancelled request", () => {
+    const cancelled = createCancelledError();
+    expect(isCancelledError(cancelled)).toBe(true);
+    expect(isRetryableError(cancelled)).toBe(false);
+  });
+
+  it("wraps schema failures as unknown errors", () => {
+    const wrapped = toApiClientError(new ValidationError("play.grid0", "expected an array"));
+    expect(wrapped.kind).toBe("unknown");
+    expect(wrapped.retryable).toBe(false);
+  });
+});
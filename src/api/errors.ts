@@ -0,0 +1,100 @@
+import type { ApiError } from "./types";
+import { ValidationError } from "./validators";
+
+export type ApiErrorKind =
+  | "timeout"
+  | "disconnected"
+  | "validation"
+  | "insufficient_funds"
+  | "session_expired"
+  | "rate_limited"
+  | "maintenance"
+  | "cancelled"
+  | "incompatible"
+  | "unknown";
+
+type ApiClientErrorDetails = {
+  status?: number;
+  code?: string;
+  retryAfterMs?: number;
+  cause?: unknown;
+};
+
+const KIND_BY_CODE: Record<string, ApiErrorKind> = {
+  TIMEOUT: "timeout",
+  VALIDATION_ERROR: "validation",
+  INVALID_REQUEST: "validation",
+  INSUFFICIENT_FUNDS: "insufficient_funds",
+  SESSION_EXPIRED: "session_expired",
+  UNAUTHORIZED: "session_expired",
+  RATE_LIMITED: "rate_limited",
+  MAINTENANCE: "maintenance",
+  UNSUPPORTED_PROTOCOL: "incompatible",
+};
+
+const KIND_BY_STATUS: Record<number, ApiErrorKind> = {
+  400: "validation",
+  401: "session_expired",
+  402: "insufficient_funds",
+  408: "timeout",
+  419: "session_expired",
+  422: "validation",
+  426: "incompatible",
+  429: "rate_limited",
+  503: "maintenance",
+  504: "timeout",
+};
+
+export class ApiClientError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly code?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ApiErrorKind, message: string, details: ApiClientErrorDetails = {}) {
+    super(message, details.cause === undefined ? undefined : { cause: details.cause });
+    this.name = "ApiClientError";
+    this.kind = kind;
+    this.status = details.status;
+    this.code = details.code;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /** Timeouts and dropped connections may have reached the server; only these are safe to retry with the same key. */
+  get retryable(): boolean {
+    return this.kind === "timeout" || this.kind === "disconnected";
+  }
+}
+
+export function fromApiError(error: ApiError): ApiClientError {
+  const code = error.code?.toUpperCase();
+  const kind =
+    (code ? KIND_BY_CODE[code] : undefined) ?? (error.status ? KIND_BY_STATUS[error.status] : undefined) ?? "unknown";
+  return new ApiClientError(kind, error.message, {
+    status: error.status,
+    code: error.code,
+    retryAfterMs: error.retryAfterMs,
+    cause: error.cause,
+  });
+}
+
+export function toApiClientError(err: unknown): ApiClientError {
+  if (err instanceof ApiClientError) return err;
+  if (err instanceof ValidationError) {
+    return new ApiClientError("unknown", err.message, { cause: err });
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return new ApiClientError("unknown", message, { cause: err });
+}
+
+export function isRetryableError(err: unknown): boolean {
+  return err instanceof ApiClientError && err.retryable;
+}
+
+export function createCancelledError(): ApiClientError {
+  return new ApiClientError("cancelled", "Request cancelled.");
+}
+
+export function isCancelledError(err: unknown): boolean {
+  return err instanceof ApiClientError && err.kind === "cancelled";
+}
@@ -0,0 +1,85 @@
+import { setConnectionState } from "./connection-state";
+import { resolveApiBaseUrl } from "./endpoints";
+import { ApiClientError, createCancelledError, fromApiError } from "./errors";
+import { getSessionId, getSessionToken } from "./session";
+import type { GameRequestType, GameTransport } from "./transport";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const ROUTES: Record<GameRequestType, { method: "GET" | "POST"; path: string }> = {
+  "session.auth": { method: "POST", path: "/api/v1/session" },
+  "config.get": { method: "GET", path: "/api/v1/config" },
+  "wallet.get": { method: "GET", path: "/api/v1/wallet" },
+  "history.list": { method: "GET", path: "/api/v1/history" },
+  "play.single": { method: "POST", path: "/api/v1/play" },
+  "play.pack": { method: "POST", path: "/api/v1/pack-play" },
+  "play.pending": { method: "GET", path: "/api/v1/play/pending" },
+  "play.finish": { method: "POST", path: "/api/v1/play/finish" },
+};
+
+function buildRequest(type: GameRequestType, payload: unknown): { url: string; init: RequestInit } {
+  const route = ROUTES[type];
+  const body = (payload ?? {}) as Record<string, unknown>;
+  const headers: Record<string, string> = { "X-Session-Id": getSessionId() };
+  const token = getSessionToken();
+  if (token) headers.Authorization = `Bearer ${token}`;
+  let url = `${resolveApiBaseUrl()}${route.path}`;
+
+  if (route.method === "GET") {
+    const params = new URLSearchParams();
+    Object.entries(body).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) params.set(key, String(value));
+    });
+    url = `${url}?${params.toString()}`;
+  } else {
+    headers["Content-Type"] = "application/json";
+  }
+  if (typeof body.idempotencyKey === "string") {
+    headers["Idempotency-Key"] = body.idempotencyKey;
+  }
+
+  return {
+    url,
+    init: {
+      method: route.method,
+      headers,
+      body: route.method === "POST" ? JSON.stringify(body) : undefined,
+    },
+  };
+}
+
+export const httpTransport: GameTransport = {
+  kind: "http",
+  async request(type, payload, options = {}) {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS, signal } = options;
+    if (signal?.aborted) throw createCancelledError();
+    const { url, init } = buildRequest(type, payload);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (signal?.aborted) throw createCancelledError();
+      if (controller.signal.aborted) {
+        throw new ApiClientError("timeout", "HTTP request timed out.", { cause: err });
+      }
+      setConnectionState("offline");
+      throw new ApiClientError("disconnected", "HTTP request failed.", { cause: err });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    setConnectionState("open");
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const message = body?.message || `Request failed with status ${response.status}`;
+      throw fromApiError({ message, status: response.status, code: body?.code, retryAfterMs: body?.retryAfterMs });
+    }
+    return body;
+  },
+};
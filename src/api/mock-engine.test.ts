@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { createRng } from "@/lib/rng";
+import { createMockConfig, findClusters, simulatePack, simulatePlay } from "./mock-engine";
+import { validateGameConfig, validatePackOutcome, validatePlayOutcome } from "./validators";
+
+const config = createMockConfig({ clientCode: "demo", companyCode: "demo", gameCode: "e-instant" });
+
+function play(seed: string, level: "nivel1" | "nivel2" = "nivel1") {
+  return simulatePlay(config, { playId: "p-1", level, mode: level, bet: 100, rng: createRng(seed) });
+}
+
+describe("mock engine", () => {
+  it("produces a config that passes the client validators", () => {
+    expect(() => validateGameConfig(config)).not.toThrow();
+  });
+
+  it("is deterministic for a given seed", () => {
+    expect(play("seed-a")).toEqual(play("seed-a"));
+    const outcomes = new Set(Array.from({ length: 10 }, (_, idx) => JSON.stringify(play(`seed-${idx}`).grid0)));
+    expect(outcomes.size).toBeGreaterThan(1);
+  });
+
+  it("only removes winning clusters and ends on a board without matches", () => {
+    for (let idx = 0; idx < 50; idx += 1) {
+      for (const level of ["nivel1", "nivel2"] as const) {
+        const outcome = validatePlayOutcome(play(`cascade-${idx}`, level));
+        const levelConfig = config.engine!.levels[level];
+        let grid = outcome.grid0;
+        outcome.cascades
+          .filter((step) => !step.bonus)
+          .forEach((step) => {
+            const clustered = findClusters(grid, levelConfig).flatMap((cluster) => cluster.cells);
+            expect(step.removeCells).toEqual(clustered);
+            grid = step.gridAfter!;
+          });
+        if (outcome.cascades.filter((step) => !step.bonus).length < levelConfig.maxCascades) {
+          expect(findClusters(grid, levelConfig)).toHaveLength(0);
+        }
+        const bonusWin = outcome.cascades.at(-1)?.bonusData?.totalWin ?? 0;
+        expect(outcome.totalWin).toBe(outcome.cascades.reduce((sum, step) => sum + step.winStep, bonusWin));
+      }
+    }
+  });
+
+  it("lets survivors fall in cascade mode and feeds new symbols from the top", () => {
+    for (let idx = 0; idx < 50; idx += 1) {
+      const outcome = play(`fall-${idx}`, "nivel2");
+      const step = outcome.cascades.find((entry) => !entry.bonus);
+      if (!step) continue;
+      step.dropIn.forEach(({ col, symbols }) => {
+        const removed = new Set(step.removeCells.filter((cell) => cell.col === col).map((cell) => cell.row));
+        const survivors = outcome.grid0.map((row) => row[col]).filter((_, row) => !removed.has(row));
+        expect(step.gridAfter!.map((row) => row[col])).toEqual([...symbols, ...survivors]);
+      });
+      return;
+    }
+    throw new Error("no winning nivel2 play in 50 seeds");
+  });
+
+  it("triggers the bonus when enough trigger symbols are on the final board", () => {
+    const bonus = Array.from({ length: 200 }, (_, idx) => play(`bonus-${idx}`))
+      .flatMap((outcome) => outcome.cascades)
+      .find((step) => step.bonus);
+    expect(bonus?.bonusData?.triggerCount).toBeGreaterThanOrEqual(config.engine!.levels.nivel1.bonus.triggerCount);
+    expect(bonus?.bonusData?.prizeMultipliers).toEqual(config.engine!.levels.nivel1.bonus.prizeMultipliers);
+  });
+
+  it("deals the bonus rounds itself and pays them in the ticket total", () => {
+    const outcome = Array.from({ length: 200 }, (_, idx) => play(`bonus-${idx}`)).find(
+      (entry) => (entry.cascades.at(-1)?.bonusData?.totalWin ?? 0) > 0,
+    )!;
+    const { rounds, totalWin } = outcome.cascades.at(-1)!.bonusData!;
+    expect(rounds.every((round) => round.cells.filter((cell) => cell.type === "end").length === 1)).toBe(true);
+    expect(totalWin).toBe(rounds.reduce((sum, round) => sum + round.cells[round.pick].amount, 0));
+    expect(outcome.totalWin).toBeGreaterThanOrEqual(totalWin);
+    expect(validatePlayOutcome(outcome)).toBe(outcome);
+  });
+
+  it("pays each nivel2 bonus round from the table of its octopus level", () => {
+    const bonus = config.engine!.levels.nivel2.bonus;
+    const tables = [bonus.prizeMultipliers, ...(bonus.levelTiers ?? [])];
+    const dealt = Array.from({ length: 300 }, (_, idx) => play(`octopus-${idx}`, "nivel2"))
+      .flatMap((outcome) => outcome.cascades)
+      .flatMap((step) => (step.bonusData ? [step.bonusData] : []));
+    expect(dealt.length).toBeGreaterThan(0);
+    dealt.forEach(({ rounds, maxLevel }) => {
+      expect(maxLevel).toBe(tables.length);
+      let level = 1;
+      rounds.forEach((round) => {
+        round.cells
+          .filter((cell) => cell.type === "prize")
+          .forEach((cell) => expect(tables[level - 1]).toContain(cell.multiplier));
+        expect(round.cells.some((cell) => cell.type === "level-up")).toBe(level < tables.length);
+        if (round.cells[round.pick].type === "level-up") level += 1;
+      });
+    });
+  });
+
+  it("builds packs with one ticket per slot and the best ticket flagged", () => {
+    const pack = validatePackOutcome(
+      simulatePack(config, { packId: "k-1", packLevel: "nivel2", packSize: 10, bet: 200, rng: createRng("pack") }),
+    );
+    expect(pack.plays.map((ticket) => ticket.ticketIndex)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(pack.totalBet).toBe(2000);
+    expect(pack.plays[pack.bestIndex!].totalWin).toBe(Math.max(...pack.plays.map((ticket) => ticket.totalWin)));
+  });
+});
@@ -0,0 +1,343 @@
+import { pickWeighted, type Rng } from "@/lib/rng";
+import type {
+  BonusCell,
+  BonusRound,
+  CascadeStep,
+  CellRef,
+  DropIn,
+  EngineLevelConfig,
+  GameConfig,
+  LevelBonusConfig,
+  PackLevel,
+  PackOutcome,
+  PackPlay,
+  PackSize,
+  PlayOutcome,
+} from "./types";
+
+type SymbolWeights = { value: string; weight: number }[];
+
+const MOCK_SYMBOLS = [
+  { symbol: "A", label: "Ancla", color: "#38bdf8", weight: 18, matches: [3, 5, 8] },
+  { symbol: "B", label: "Barco", color: "#f97316", weight: 16, matches: [4, 6, 10] },
+  { symbol: "C", label: "Caracol", color: "#a855f7", weight: 14, matches: [5, 8, 12] },
+  { symbol: "D", label: "Delfin", color: "#22c55e", weight: 12, matches: [8, 12, 20] },
+  { symbol: "E", label: "Estrella", color: "#eab308", weight: 10, matches: [10, 16, 30] },
+  { symbol: "F", label: "Faro", color: "#ef4444", weight: 8, matches: [15, 25, 50] },
+  { symbol: "N", label: "Bonus", color: "#f8fafc", weight: 4, matches: [] },
+];
+
+const MOCK_LEVELS: Record<PackLevel, EngineLevelConfig> = {
+  nivel1: {
+    engineType: "cluster",
+    rows: 3,
+    cols: 5,
+    includeDiagonals: true,
+    fillMode: "replace",
+    maxCascades: 20,
+    matchMinCluster: 3,
+    excludedSymbols: ["N"],
+    bonus: {
+      triggerSymbol: "N",
+      triggerCount: 2,
+      prizeMultipliers: [2, 3, 5, 8],
+      maxRounds: 25,
+      endCode: "TERMINO_DE_BONUS",
+    },
+  },
+  nivel2: {
+    engineType: "cluster",
+    rows: 7,
+    cols: 5,
+    includeDiagonals: false,
+    fillMode: "cascade",
+    maxCascades: 20,
+    matchMinCluster: 3,
+    excludedSymbols: ["N"],
+    bonus: {
+      triggerSymbol: "N",
+      triggerCount: 3,
+      prizeMultipliers: [4, 6, 8, 10, 12, 16, 20, 30, 40],
+      maxRounds: 25,
+      endCode: "TERMINO_DE_BONUS",
+      levelTiers: [
+        [8, 12, 16, 20, 30, 40, 60],
+        [16, 24, 30, 40, 60, 80, 100],
+      ],
+    },
+  },
+};
+
+export function createMockConfig(params: { clientCode: string; companyCode: string; gameCode: string }): GameConfig {
+  const weights = MOCK_SYMBOLS.map(({ symbol, weight }) => ({ symbol, weight }));
+  const paytable = MOCK_SYMBOLS.filter((entry) => entry.matches.length > 0).map((entry) => ({
+    symbol: entry.symbol,
+    minCluster: 3,
+    win: entry.matches[0],
+  }));
+  return {
+    ...params,
+    money: { currency: "CLP", decimals: 0, thousandSeparator: ".", decimalSeparator: "," },
+    betOptions: { minBet: 100, maxBet: 5000, step: 100 },
+    betValues: [100, 200, 500, 1000, 2000, 5000],
+    jackpots: { mayor: 2500000, menor: 250000 },
+    availableModes: ["nivel1", "nivel2", "pack"],
+    packLevels: ["nivel1", "nivel2"],
+    modes: (["nivel1", "nivel2", "pack"] as const).map((code) => ({ code, enabled: true, weights, paytable })),
+    packSizes: [5, 10, 15, 20],
+    board: { rows: MOCK_LEVELS.nivel1.rows, cols: MOCK_LEVELS.nivel1.cols, symbols: MOCK_SYMBOLS.map((s) => s.symbol) },
+    engine: {
+      rng: { source: "mock", seed: null },
+      levels: { nivel1: { ...MOCK_LEVELS.nivel1 }, nivel2: { ...MOCK_LEVELS.nivel2 } },
+    },
+    symbolPaytable: MOCK_SYMBOLS.filter((entry) => entry.matches.length > 0).map((entry) => ({
+      symbol: entry.symbol,
+      label: entry.label,
+      color: entry.color,
+      matches: entry.matches.map((multiplier, idx) => ({ count: 3 + idx * 2, multiplier })),
+    })),
+    responsibleGaming: {
+      realityCheckMinutes: 30,
+      sessionLossLimit: 30000,
+      sessionBetLimit: 100000,
+      coolOffMinutes: [15, 60, 1440],
+    },
+    autoplay: { maxRounds: 100, roundOptions: [10, 25, 50, 100] },
+  };
+}
+
+function resolveLevel(config: GameConfig, level: PackLevel): EngineLevelConfig {
+  return config.engine?.levels?.[level] ?? MOCK_LEVELS[level];
+}
+
+function resolveWeights(config: GameConfig, level: PackLevel): SymbolWeights {
+  const weights = config.modes.find((mode) => mode.code === level)?.weights ?? [];
+  if (weights.length > 0) return weights.map(({ symbol, weight }) => ({ value: symbol, weight }));
+  return config.board.symbols.map((symbol) => ({ value: symbol, weight: 1 }));
+}
+
+/** Multiplier for a cluster, from the per-symbol rules first and the mode paytable as fallback. */
+function clusterMultiplier(config: GameConfig, level: PackLevel, symbol: string, size: number): number {
+  const rules = config.symbolPaytable?.find((entry) => entry.symbol === symbol)?.matches;
+  if (rules?.length) {
+    return rules.reduce((best, rule) => (size >= rule.count ? Math.max(best, rule.multiplier) : best), 0);
+  }
+  const paytable = config.modes.find((mode) => mode.code === level)?.paytable ?? [];
+  return paytable.reduce(
+    (best, entry) => (entry.symbol === symbol && size >= entry.minCluster ? Math.max(best, entry.win) : best),
+    0,
+  );
+}
+
+function neighbours(cell: CellRef, includeDiagonals: boolean): CellRef[] {
+  const offsets = includeDiagonals
+    ? [-1, 0, 1].flatMap((dr) => [-1, 0, 1].map((dc) => [dr, dc])).filter(([dr, dc]) => dr !== 0 || dc !== 0)
+    : [
+        [-1, 0],
+        [1, 0],
+        [0, -1],
+        [0, 1],
+      ];
+  return offsets.map(([dr, dc]) => ({ row: cell.row + dr, col: cell.col + dc }));
+}
+
+export function findClusters(grid: string[][], level: EngineLevelConfig): { symbol: string; cells: CellRef[] }[] {
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const excluded = new Set(level.excludedSymbols);
+  const visited = new Set<string>();
+  const clusters: { symbol: string; cells: CellRef[] }[] = [];
+
+  for (let row = 0; row < rows; row += 1) {
+    for (let col = 0; col < cols; col += 1) {
+      const symbol = grid[row][col];
+      if (visited.has(`${row}-${col}`) || excluded.has(symbol)) continue;
+      const cells: CellRef[] = [];
+      const queue: CellRef[] = [{ row, col }];
+      visited.add(`${row}-${col}`);
+      while (queue.length > 0) {
+        const cell = queue.shift() as CellRef;
+        cells.push(cell);
+        neighbours(cell, level.includeDiagonals).forEach((next) => {
+          const key = `${next.row}-${next.col}`;
+          if (next.row < 0 || next.row >= rows || next.col < 0 || next.col >= cols) return;
+          if (visited.has(key) || grid[next.row][next.col] !== symbol) return;
+          visited.add(key);
+          queue.push(next);
+        });
+      }
+      if (cells.length >= level.matchMinCluster) clusters.push({ symbol, cells });
+    }
+  }
+  return clusters;
+}
+
+/**
+ * Replaces removed cells in place ("replace") or lets survivors fall and feeds new symbols from the top.
+ * Simplification: "rodillo" refills like "cascade" here. The real engine refills it from its reel strips, which the
+ * mock does not model; the board only tells the two apart in the opening reel spin, so steps still animate alike.
+ */
+function refill(
+  grid: string[][],
+  removed: CellRef[],
+  level: EngineLevelConfig,
+  draw: () => string,
+): { gridAfter: string[][]; dropIn: DropIn[] } {
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const removeSet = new Set(removed.map((cell) => `${cell.row}-${cell.col}`));
+  const gridAfter = grid.map((row) => [...row]);
+  const dropIn: DropIn[] = [];
+
+  for (let col = 0; col < cols; col += 1) {
+    const removedRows = Array.from({ length: rows }, (_, row) => row).filter((row) => removeSet.has(`${row}-${col}`));
+    if (removedRows.length === 0) continue;
+    const symbols = removedRows.map(() => draw());
+    dropIn.push({ col, symbols });
+
+    if (level.fillMode === "replace") {
+      removedRows.forEach((row, idx) => {
+        gridAfter[row][col] = symbols[idx];
+      });
+      continue;
+    }
+
+    const survivors = Array.from({ length: rows }, (_, row) => grid[row][col]).filter(
+      (_, row) => !removeSet.has(`${row}-${col}`),
+    );
+    [...symbols, ...survivors].forEach((symbol, row) => {
+      gridAfter[row][col] = symbol;
+    });
+  }
+  return { gridAfter, dropIn };
+}
+
+function shuffle<T>(items: T[], rng: Rng): T[] {
+  const result = [...items];
+  for (let idx = result.length - 1; idx > 0; idx -= 1) {
+    const swap = Math.floor(rng() * (idx + 1));
+    [result[idx], result[swap]] = [result[swap], result[idx]];
+  }
+  return result;
+}
+
+function bonusTables(bonus: LevelBonusConfig): number[][] {
+  return [bonus.prizeMultipliers, ...(bonus.levelTiers ?? [])];
+}
+
+/**
+ * Two distinct prizes from the current level's table and the end cell per round, plus the octopus while a higher
+ * level is left. Rounds go on until the end cell is picked or maxRounds is reached.
+ */
+function dealBonusRounds(bonus: LevelBonusConfig, bet: number, rng: Rng): BonusRound[] {
+  const rounds: BonusRound[] = [];
+  const tables = bonusTables(bonus);
+  let level = 1;
+  while (rounds.length < Math.max(1, bonus.maxRounds)) {
+    const pool = [...new Set(tables[level - 1])];
+    const multipliers = pool.length > 1 ? shuffle(pool, rng).slice(0, 2) : [pool[0] ?? 1, pool[0] ?? 1];
+    const prizes = multipliers.map((multiplier): BonusCell => ({
+      type: "prize",
+      multiplier,
+      amount: Math.round(bet * multiplier),
+    }));
+    const extras: BonusCell[] = [{ type: "end", multiplier: 0, amount: 0 }];
+    if (level < tables.length) extras.push({ type: "level-up", multiplier: 0, amount: 0 });
+    const cells = shuffle<BonusCell>([...prizes, ...extras], rng);
+    const pick = Math.floor(rng() * cells.length);
+    rounds.push({ cells, pick });
+    if (cells[pick].type === "end") break;
+    if (cells[pick].type === "level-up") level += 1;
+  }
+  return rounds;
+}
+
+export function simulatePlay(
+  config: GameConfig,
+  params: { playId: string; level: PackLevel; mode: PlayOutcome["mode"]; bet: number; rng: Rng },
+): PlayOutcome {
+  const level = resolveLevel(config, params.level);
+  const weights = resolveWeights(config, params.level);
+  const draw = () => pickWeighted(weights, params.rng);
+  const grid0 = Array.from({ length: level.rows }, () => Array.from({ length: level.cols }, draw));
+  const cascades: CascadeStep[] = [];
+  let grid = grid0;
+
+  while (cascades.length < level.maxCascades) {
+    const clusters = findClusters(grid, level);
+    if (clusters.length === 0) break;
+    const removeCells = clusters.flatMap((cluster) => cluster.cells);
+    const winStep = clusters.reduce(
+      (sum, cluster) =>
+        sum + Math.round(params.bet * clusterMultiplier(config, params.level, cluster.symbol, cluster.cells.length)),
+      0,
+    );
+    const { gridAfter, dropIn } = refill(grid, removeCells, level, draw);
+    cascades.push({ removeCells, dropIn, winStep, gridAfter });
+    grid = gridAfter;
+  }
+
+  const triggerCells: CellRef[] = [];
+  grid.forEach((row, rowIdx) =>
+    row.forEach((symbol, col) => {
+      if (symbol === level.bonus.triggerSymbol) triggerCells.push({ row: rowIdx, col });
+    }),
+  );
+  let bonusWin = 0;
+  if (triggerCells.length >= level.bonus.triggerCount) {
+    const rounds = dealBonusRounds(level.bonus, params.bet, params.rng);
+    bonusWin = rounds.reduce((sum, round) => sum + round.cells[round.pick].amount, 0);
+    cascades.push({
+      removeCells: [],
+      dropIn: [],
+      winStep: 0,
+      gridAfter: grid,
+      bonus: true,
+      bonusData: {
+        mode: params.level,
+        triggerCount: triggerCells.length,
+        triggerCells,
+        prizeMultipliers: [...level.bonus.prizeMultipliers],
+        endCode: level.bonus.endCode,
+        maxRounds: level.bonus.maxRounds,
+        maxLevel: bonusTables(level.bonus).length,
+        rounds,
+        totalWin: bonusWin,
+      },
+    });
+  }
+
+  return {
+    playId: params.playId,
+    mode: params.mode,
+    bet: params.bet,
+    grid0,
+    cascades,
+    totalWin: cascades.reduce((sum, step) => sum + step.winStep, bonusWin),
+  };
+}
+
+export function simulatePack(
+  config: GameConfig,
+  params: { packId: string; packLevel: PackLevel; packSize: PackSize; bet: number; rng: Rng },
+): PackOutcome {
+  const plays: PackPlay[] = Array.from({ length: params.packSize }, (_, ticketIndex) => ({
+    ...simulatePlay(config, {
+      playId: `${params.packId}-${ticketIndex + 1}`,
+      level: params.packLevel,
+      mode: params.packLevel,
+      bet: params.bet,
+      rng: params.rng,
+    }),
+    ticketIndex,
+  }));
+  const bestIndex = plays.reduce((best, play, idx) => (play.totalWin > plays[best].totalWin ? idx : best), 0);
+  return {
+    packId: params.packId,
+    packLevel: params.packLevel,
+    plays,
+    totalBet: params.bet * params.packSize,
+    totalWin: plays.reduce((sum, play) => sum + play.totalWin, 0),
+    bestIndex,
+  };
+}
@@ -0,0 +1,221 @@
+import { createRng } from "@/lib/rng";
+import { setConnectionState } from "./connection-state";
+import { encodePackOutcome, encodePlayOutcome } from "./compact";
+import { ApiClientError, createCancelledError } from "./errors";
+import { createMockConfig, simulatePack, simulatePlay } from "./mock-engine";
+import type { GameRequestType, GameTransport, TransportRequestOptions } from "./transport";
+import type {
+  GameConfig,
+  HistoryEntry,
+  HistoryPage,
+  PackLevel,
+  PackOutcome,
+  PackSize,
+  PendingPlayResult,
+  PlayOutcome,
+} from "./types";
+
+const DEFAULT_SEED = "mock";
+// Keeps the UI's loading states visible without slowing CI down noticeably.
+const MOCK_LATENCY_MS = 120;
+const MOCK_BALANCE = 50000;
+const HISTORY_PAGE_SIZE = 10;
+
+type MockPayload = Record<string, unknown>;
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createCancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Replays a finished pack the way a streaming backend sends it: header, one message per ticket, then the totals. */
+async function streamPack(pack: PackOutcome, options: TransportRequestOptions, latencyMs: number, compact: boolean) {
+  const emit = options.onChunk ?? (() => {});
+  emit({
+    event: "header",
+    data: { packId: pack.packId, packLevel: pack.packLevel, packSize: pack.plays.length, totalBet: pack.totalBet },
+  });
+  for (const play of pack.plays) {
+    await wait(latencyMs, options.signal);
+    emit({ event: "play", data: compact ? encodePlayOutcome(play) : play });
+  }
+  return {
+    totalWin: pack.totalWin,
+    bestIndex: pack.bestIndex,
+    balanceBefore: pack.balanceBefore,
+    balanceAfter: pack.balanceAfter,
+  };
+}
+
+function localDate(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function asText(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function asPackLevel(value: unknown): PackLevel {
+  return value === "nivel2" ? "nivel2" : "nivel1";
+}
+
+/** Serves every request type from a seeded in-memory engine and wallet; same seed, same outcomes. */
+export function createMockTransport(seed: string | number = DEFAULT_SEED, latencyMs = MOCK_LATENCY_MS): GameTransport {
+  const rng = createRng(seed);
+  const outcomes = new Map<string, unknown>();
+  const configs = new Map<string, GameConfig>();
+  let sequence = 0;
+  let balance = MOCK_BALANCE;
+  // Newest first, like the real history endpoint.
+  const history: HistoryEntry[] = [];
+  let unfinished: PlayOutcome | null = null;
+
+  const nextId = (prefix: string) => {
+    sequence += 1;
+    return `mock-${prefix}-${sequence}`;
+  };
+
+  const configFor = (payload: MockPayload) => {
+    const params = {
+      clientCode: String(payload.clientCode ?? "demo"),
+      companyCode: String(payload.companyCode ?? "demo"),
+      gameCode: String(payload.gameCode ?? "e-instant"),
+    };
+    // Plays do not carry the game code, so configs are shared per tenant.
+    const key = `${params.clientCode}:${params.companyCode}`;
+    let config = configs.get(key);
+    if (!config) {
+      config = createMockConfig(params);
+      configs.set(key, config);
+    }
+    return config;
+  };
+
+  const charge = <T extends PlayOutcome | PackOutcome>(cost: number, outcome: () => T): T => {
+    if (cost > balance) {
+      throw new ApiClientError("insufficient_funds", "Saldo insuficiente.", { code: "INSUFFICIENT_FUNDS" });
+    }
+    const balanceBefore = balance;
+    const result = outcome();
+    balance = balance - cost + result.totalWin;
+    const charged = { ...result, balanceBefore, balanceAfter: balance };
+    const playedAt = new Date().toISOString();
+    history.unshift(
+      "packId" in charged
+        ? { kind: "pack", playedAt, outcome: charged }
+        : { kind: "play", playedAt, outcome: charged },
+    );
+    return charged;
+  };
+
+  const listHistory = (payload: MockPayload): HistoryPage => {
+    const mode = asText(payload.mode);
+    const from = asText(payload.from);
+    const to = asText(payload.to);
+    const matches = history.filter((entry) => {
+      const day = localDate(entry.playedAt);
+      const entryMode = entry.kind === "pack" ? "pack" : entry.outcome.mode;
+      return (!mode || entryMode === mode) && (!from || day >= from) && (!to || day <= to);
+    });
+    const offset = Number(payload.cursor) || 0;
+    const limit = Math.max(1, Number(payload.limit) || HISTORY_PAGE_SIZE);
+    const next = offset + limit;
+    return { entries: matches.slice(offset, next), nextCursor: next < matches.length ? String(next) : undefined };
+  };
+
+  const handle = (type: GameRequestType, payload: MockPayload): unknown => {
+    const bet = Number(payload.bet);
+    if ((type === "play.single" || type === "play.pack") && (!Number.isFinite(bet) || bet <= 0)) {
+      throw new ApiClientError("validation", "Apuesta invalida.", { code: "INVALID_REQUEST" });
+    }
+    switch (type) {
+      case "session.auth":
+        return { playerId: "mock-player" };
+      case "config.get":
+        return configFor(payload);
+      case "wallet.get":
+        return { balance, currency: "CLP" };
+      case "history.list":
+        return listHistory(payload);
+      case "play.pending":
+        return { play: unfinished };
+      case "play.finish":
+        if (unfinished?.playId === payload.playId) unfinished = null;
+        return {};
+      case "play.single":
+        unfinished = charge(bet, () =>
+          simulatePlay(configFor(payload), {
+            playId: nextId("play"),
+            level: asPackLevel(payload.mode),
+            mode: payload.mode === "nivel2" ? "nivel2" : payload.mode === "pack" ? "pack" : "nivel1",
+            bet,
+            rng,
+          }),
+        );
+        return unfinished;
+      case "play.pack": {
+        const packSize = (Number(payload.packSize) || 5) as PackSize;
+        return charge(bet * packSize, () =>
+          simulatePack(configFor(payload), {
+            packId: nextId("pack"),
+            packLevel: asPackLevel(payload.packLevel),
+            packSize,
+            bet,
+            rng,
+          }),
+        );
+      }
+    }
+  };
+
+  return {
+    kind: "mock",
+    async request(type, payload, options = {}) {
+      const body = (payload ?? {}) as MockPayload;
+      if (options.signal?.aborted) throw createCancelledError();
+      await wait(latencyMs, options.signal);
+      setConnectionState("open");
+
+      const idempotencyKey = typeof body.idempotencyKey === "string" ? body.idempotencyKey : undefined;
+      const result = idempotencyKey && outcomes.has(idempotencyKey) ? outcomes.get(idempotencyKey) : handle(type, body);
+      if (idempotencyKey) outcomes.set(idempotencyKey, result);
+      const compact = body.encoding === "compact";
+      if (type === "play.pack" && body.stream === true && options.onChunk) {
+        return streamPack(result as PackOutcome, options, latencyMs, compact);
+      }
+      if (compact && type === "play.single") return encodePlayOutcome(result as PlayOutcome);
+      if (compact && type === "play.pending") {
+        const { play } = result as PendingPlayResult;
+        return { play: play && encodePlayOutcome(play) };
+      }
+      if (compact && type === "play.pack") return encodePackOutcome(result as PackOutcome);
+      if (compact && type === "history.list") {
+        const page = result as HistoryPage;
+        return {
+          ...page,
+          entries: page.entries.map((entry) =>
+            entry.kind === "pack"
+              ? { ...entry, outcome: encodePackOutcome(entry.outcome) }
+              : { ...entry, outcome: encodePlayOutcome(entry.outcome) },
+          ),
+        };
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { decodePendingPlay } from "./compact";
+import { createMockTransport } from "./mock-transport";
+import { findPendingPlay, readPendingPlay, savePendingPlay, updatePendingPlay } from "./pending-play";
+import type { PlayOutcome } from "./types";
+
+const play: PlayOutcome = {
+  playId: "play-1",
+  mode: "nivel1",
+  bet: 100,
+  grid0: [["A", "B"]],
+  cascades: [{ removeCells: [], dropIn: [], winStep: 0 }],
+  totalWin: 0,
+};
+
+describe("pending play", () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  it("keeps the progress of the stored ticket only", () => {
+    savePendingPlay({ play, completedSteps: 0 });
+    updatePendingPlay("play-1", { completedSteps: 1, bonus: { round: 2 } });
+    updatePendingPlay("play-0", { completedSteps: 5 });
+    expect(readPendingPlay()).toEqual({ play, completedSteps: 1, bonus: { round: 2 } });
+  });
+
+  it("prefers the local copy and drops one that is no longer valid", async () => {
+    savePendingPlay({ play, completedSteps: 1 });
+    await expect(findPendingPlay()).resolves.toMatchObject({ play: { playId: "play-1" } });
+
+    window.sessionStorage.setItem("piloto_pending_play", JSON.stringify({ play: { playId: "broken" } }));
+    expect(readPendingPlay()).toBeNull();
+    expect(window.sessionStorage.length).toBe(0);
+  });
+
+  it("does not ask the server for a ticket before the protocol is agreed", async () => {
+    await expect(findPendingPlay()).resolves.toBeNull();
+  });
+
+  it("is served by the mock server until the ticket is reported as shown", async () => {
+    const transport = createMockTransport("resume", 0);
+    const sold = (await transport.request("play.single", { mode: "nivel1", bet: 100 })) as PlayOutcome;
+    expect(await transport.request("play.pending", {})).toEqual({ play: sold });
+    expect(decodePendingPlay(await transport.request("play.pending", { encoding: "compact" }))).toEqual({ play: sold });
+
+    await transport.request("play.finish", { playId: sold.playId });
+    expect(await transport.request("play.pending", {})).toEqual({ play: null });
+  });
+});
@@ -0,0 +1,80 @@
+import { fetchPendingPlay, finishPlay, type RequestOptions } from "./client";
+import { supportsCapability } from "./protocol";
+import type { PlayOutcome } from "./types";
+import { validatePlayOutcome } from "./validators";
+
+const STORAGE_KEY = "piloto_pending_play";
+
+/** A bought ticket that was not shown to the end, with how far the player got. */
+export interface PendingPlay<TBonus = unknown> {
+  play: PlayOutcome;
+  /** Cascade steps fully shown before the interruption. */
+  completedSteps: number;
+  /** Bonus round in progress, as the UI left it. */
+  bonus?: TBonus;
+}
+
+function readStorage(): string | null {
+  try {
+    return typeof window === "undefined" ? null : window.sessionStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(value: string | null) {
+  try {
+    if (typeof window === "undefined") return;
+    if (value === null) window.sessionStorage.removeItem(STORAGE_KEY);
+    else window.sessionStorage.setItem(STORAGE_KEY, value);
+  } catch {
+    // Without storage only the server copy (when offered) can bring the ticket back.
+  }
+}
+
+export function readPendingPlay<TBonus = unknown>(): PendingPlay<TBonus> | null {
+  const raw = readStorage();
+  if (!raw) return null;
+  try {
+    const entry = JSON.parse(raw) as PendingPlay<TBonus>;
+    validatePlayOutcome(entry.play);
+    return { ...entry, completedSteps: Math.max(0, Number(entry.completedSteps) || 0) };
+  } catch {
+    writeStorage(null);
+    return null;
+  }
+}
+
+export function savePendingPlay<TBonus>(entry: PendingPlay<TBonus>) {
+  writeStorage(JSON.stringify(entry));
+}
+
+/** Records progress on the stored ticket; ignored once another ticket took its place. */
+export function updatePendingPlay<TBonus>(playId: string, progress: Partial<Omit<PendingPlay<TBonus>, "play">>) {
+  const entry = readPendingPlay<TBonus>();
+  if (entry?.play.playId !== playId) return;
+  savePendingPlay({ ...entry, ...progress });
+}
+
+/** Looks for an unfinished ticket: the local copy first, then the server when it offers `resume`. */
+export async function findPendingPlay<TBonus = unknown>(options?: RequestOptions): Promise<PendingPlay<TBonus> | null> {
+  const local = readPendingPlay<TBonus>();
+  if (local) return local;
+  if (!supportsCapability("resume")) return null;
+  try {
+    const { play } = await fetchPendingPlay(options);
+    return play ? { play, completedSteps: 0 } : null;
+  } catch {
+    // Nothing to resume is the safe answer when the server cannot tell.
+    return null;
+  }
+}
+
+/** Forgets the ticket locally and, when the server tracks it, reports it as shown. */
+export function finishPendingPlay(playId: string) {
+  if (readPendingPlay()?.play.playId === playId) writeStorage(null);
+  if (!supportsCapability("resume")) return;
+  finishPlay(playId).catch(() => {
+    // The server offers the ticket again on the next launch; showing it twice is harmless.
+  });
+}
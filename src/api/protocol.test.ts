@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { ApiClientError } from "./errors";
+import {
+  CLIENT_HELLO,
+  LEGACY_AGREEMENT,
+  negotiateProtocol,
+  requireCapabilities,
+  setProtocolAgreement,
+  supportsCapability,
+  whenProtocolAgreed,
+} from "./protocol";
+
+describe("negotiateProtocol", () => {
+  it("agrees on the highest common version and the shared capabilities", () => {
+    const agreement = negotiateProtocol({
+      versions: [1, 2, 3],
+      capabilities: ["bonus", "server-bonus", "signatures", "replay"],
+    });
+    expect(agreement).toEqual({ version: 2, capabilities: ["bonus", "server-bonus"] });
+  });
+
+  it("falls back to an older version the server still speaks", () => {
+    const agreement = negotiateProtocol({ versions: [1], capabilities: ["bonus", "server-bonus", "pack-stream"] });
+    expect(agreement).toEqual({ version: 1, capabilities: ["bonus", "server-bonus", "pack-stream"] });
+  });
+
+  it("refuses servers that do not deal the bonus rounds, legacy ones included", () => {
+    expect(() => negotiateProtocol({ versions: [1, 2], capabilities: ["bonus", "pack-stream"] })).toThrow(
+      expect.objectContaining({ kind: "incompatible" }),
+    );
+    expect(() => requireCapabilities(LEGACY_AGREEMENT)).toThrow(ApiClientError);
+  });
+
+  it("refuses servers without a common version", () => {
+    let error: unknown;
+    try {
+      negotiateProtocol({ versions: [3, 4], capabilities: CLIENT_HELLO.capabilities });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect((error as ApiClientError).kind).toBe("incompatible");
+    expect((error as ApiClientError).retryable).toBe(false);
+  });
+});
+
+describe("protocol agreement", () => {
+  it("supports nothing until a handshake settles it", () => {
+    const agreed: number[] = [];
+    whenProtocolAgreed(({ version }) => agreed.push(version));
+    expect(supportsCapability("resume")).toBe(false);
+
+    setProtocolAgreement({ version: 2, capabilities: ["resume"] });
+    expect(supportsCapability("resume")).toBe(true);
+    setProtocolAgreement({ version: 1, capabilities: ["bonus"] });
+    expect(agreed).toEqual([2]);
+    expect(supportsCapability("resume")).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { gameBus } from "@/game/events";
+import { ApiClientError } from "./errors";
+import type { ProtocolAgreement, ProtocolCapability, ProtocolHello } from "./types";
+
+const CAPABILITIES: readonly ProtocolCapability[] = [
+  "bonus",
+  "server-bonus",
+  "pack-stream",
+  "compact-outcomes",
+  "signatures",
+  "resume",
+];
+
+/** What this build speaks. Signed outcomes are not verified yet, so the capability is not offered. */
+export const CLIENT_HELLO: ProtocolHello = {
+  versions: [1, 2],
+  capabilities: ["bonus", "server-bonus", "pack-stream", "compact-outcomes", "resume"],
+};
+
+// Bonus rounds are only played as the server dealt them (`rounds` and `totalWin` in bonusData); this build has no
+// client-side bonus left for servers that do not deal them.
+const REQUIRED_CAPABILITIES: readonly ProtocolCapability[] = ["server-bonus"];
+
+// Servers that predate the hello speak version 1: cascades with bonus data, whole pack responses. They do not deal
+// bonus rounds, so requireCapabilities refuses them.
+export const LEGACY_AGREEMENT: ProtocolAgreement = { version: 1, capabilities: ["bonus"] };
+
+// The mock has no handshake and deals everything this build speaks.
+export const MOCK_AGREEMENT: ProtocolAgreement = {
+  version: Math.max(...CLIENT_HELLO.versions),
+  capabilities: CAPABILITIES.filter((capability) => CLIENT_HELLO.capabilities.includes(capability)),
+};
+
+let agreement: ProtocolAgreement | null = null;
+let refused = false;
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * HTTP sends no hello, so the backend's side of it is configured: `NEXT_PUBLIC_HTTP_PROTOCOL_VERSIONS` and
+ * `NEXT_PUBLIC_HTTP_CAPABILITIES`, both comma separated. Unset, the backend is taken for a legacy one.
+ */
+export function configuredHttpHello(): ProtocolHello {
+  const versions = parseList(process.env.NEXT_PUBLIC_HTTP_PROTOCOL_VERSIONS).map(Number).filter(Number.isInteger);
+  const capabilities = parseList(process.env.NEXT_PUBLIC_HTTP_CAPABILITIES);
+  return {
+    versions: versions.length > 0 ? versions : [LEGACY_AGREEMENT.version],
+    capabilities: capabilities.length > 0 ? capabilities : LEGACY_AGREEMENT.capabilities,
+  };
+}
+
+/**
+ * Picks the highest common version; throws an "incompatible" error when the two sides share none or the server
+ * lacks a capability this build cannot play without.
+ */
+export function negotiateProtocol(server: ProtocolHello, client: ProtocolHello = CLIENT_HELLO): ProtocolAgreement {
+  const common = client.versions.filter((version) => server.versions.includes(version));
+  if (common.length === 0) {
+    throw new ApiClientError(
+      "incompatible",
+      `No common protocol version (client ${client.versions.join(",")}, server ${server.versions.join(",")}).`,
+      { code: "UNSUPPORTED_PROTOCOL" },
+    );
+  }
+  const capabilities = CAPABILITIES.filter(
+    (capability) => client.capabilities.includes(capability) && server.capabilities.includes(capability),
+  );
+  return requireCapabilities({ version: Math.max(...common), capabilities });
+}
+
+/** Returns the agreement as is when it has every capability this build needs; throws "incompatible" otherwise. */
+export function requireCapabilities(next: ProtocolAgreement): ProtocolAgreement {
+  const missing = REQUIRED_CAPABILITIES.filter((capability) => !next.capabilities.includes(capability));
+  if (missing.length > 0) {
+    throw new ApiClientError("incompatible", `Server protocol lacks ${missing.join(", ")}.`, {
+      code: "UNSUPPORTED_PROTOCOL",
+    });
+  }
+  return next;
+}
+
+export function getProtocolAgreement(): ProtocolAgreement | null {
+  return agreement;
+}
+
+export function setProtocolAgreement(next: ProtocolAgreement) {
+  agreement = next;
+  gameBus.emit("game:protocol", next);
+}
+
+/** Nothing is supported before an agreement: the server may not offer what this build speaks. */
+export function supportsCapability(capability: ProtocolCapability): boolean {
+  return agreement?.capabilities.includes(capability) ?? false;
+}
+
+/** Calls back once with the agreement: right away when there is one, otherwise after the next handshake. */
+export function whenProtocolAgreed(listener: (agreement: ProtocolAgreement) => void): () => void {
+  if (agreement) {
+    listener(agreement);
+    return () => {};
+  }
+  const unsubscribe = gameBus.on("game:protocol", (next) => {
+    unsubscribe();
+    listener(next);
+  });
+  return unsubscribe;
+}
+
+/** Reports a server this build cannot talk to; the UI asks the player to reload to get a matching build. */
+export function reportIncompatibleProtocol(error: ApiClientError) {
+  agreement = null;
+  refused = true;
+  gameBus.emit("game:protocol:incompatible", { clientVersions: CLIENT_HELLO.versions, message: error.message });
+}
+
+/** Whether a server was already refused, e.g. before the UI subscribed to `game:protocol:incompatible`. */
+export function isProtocolRefused(): boolean {
+  return refused;
+}
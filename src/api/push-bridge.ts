@@ -0,0 +1,15 @@
+import { gameBus } from "@/game/events";
+import { subscribe } from "./client";
+
+export function bridgePushToGameBus() {
+  const unsubscribers = [
+    subscribe("jackpot.update", (data) => gameBus.emit("game:jackpot:update", data)),
+    subscribe("config.changed", (data) => gameBus.emit("game:config:changed", data)),
+    subscribe("balance.changed", (data) => gameBus.emit("game:balance:changed", data)),
+    subscribe("maintenance.notice", (data) => gameBus.emit("game:maintenance", data)),
+  ];
+
+  return () => {
+    unsubscribers.forEach((unsub) => unsub());
+  };
+}
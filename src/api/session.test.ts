@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+async function loadSession(url: string) {
+  window.history.replaceState(null, "", url);
+  vi.resetModules();
+  return import("./session");
+}
+
+describe("player session", () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reads the launch token once and strips it from the address bar", async () => {
+    const session = await loadSession("/?token=abc&transport=ws");
+    expect(session.buildAuthPayload()).toEqual({ token: "abc", sessionId: session.getSessionId() });
+    expect(window.location.search).toBe("?transport=ws");
+
+    const reloaded = await loadSession("/");
+    expect(reloaded.getSessionToken()).toBe("abc");
+    expect(reloaded.getSessionId()).toBe(session.getSessionId());
+  });
+
+  it("runs anonymously without a token", async () => {
+    const session = await loadSession("/");
+    expect(session.buildAuthPayload()).toBeNull();
+    expect(session.getSession().status).toBe("anonymous");
+  });
+
+  it("schedules the refresh ahead of the announced expiry and rotates the token", async () => {
+    const session = await loadSession("/?launchToken=first");
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    session.applyAuthResult({ playerId: "p-1", expiresAt: "2026-01-01T00:10:00Z", token: "second" });
+    expect(session.getSession()).toMatchObject({ status: "active", playerId: "p-1" });
+    expect(session.msUntilRefresh(now)).toBe(9 * 60 * 1000);
+    expect(session.getSessionToken()).toBe("second");
+  });
+
+  it("backs off on short-lived tokens and stops once a refresh does not move the expiry", async () => {
+    const session = await loadSession("/?token=abc");
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    vi.useFakeTimers({ now });
+    const shortToken = (seconds: number) => ({
+      playerId: "p-1",
+      expiresAt: new Date(now + seconds * 1000).toISOString(),
+    });
+
+    session.applyAuthResult(shortToken(30));
+    expect(session.msUntilRefresh(now)).toBe(5000);
+    session.markRefreshing();
+    session.applyAuthResult(shortToken(40));
+    expect(session.msUntilRefresh(now)).toBe(10000);
+    session.markRefreshing();
+    session.applyAuthResult(shortToken(40));
+    expect(session.msUntilRefresh(now)).toBeNull();
+
+    session.applyAuthResult(shortToken(600));
+    expect(session.msUntilRefresh(now)).toBe(9 * 60 * 1000);
+  });
+
+  it("forgets the token once the session expires", async () => {
+    const session = await loadSession("/?token=abc");
+    const statuses: string[] = [];
+    session.subscribeSession(({ status }) => statuses.push(status));
+    session.markSessionExpired();
+    expect(statuses).toEqual(["anonymous", "expired"]);
+    expect(session.buildAuthPayload()).toBeNull();
+    expect(session.msUntilRefresh()).toBeNull();
+  });
+});
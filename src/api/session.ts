@@ -0,0 +1,148 @@
+import { gameBus } from "@/game/events";
+import { createId } from "@/lib/ids";
+import type { AuthResult, SessionStatus } from "./types";
+
+const TOKEN_PARAMS = ["token", "launchToken"];
+const TOKEN_STORAGE_KEY = "piloto_launch_token";
+const SESSION_STORAGE_KEY = "piloto_session_id";
+// Re-authenticate this long before the server-side expiry so no request lands on a dead session.
+const REFRESH_LEAD_MS = 60000;
+// Tokens that come back inside the lead are refreshed after a growing delay instead of right away.
+const MIN_REFRESH_DELAY_MS = 5000;
+const MAX_REFRESH_DELAY_MS = 60000;
+
+export interface PlayerSession {
+  sessionId: string;
+  status: SessionStatus;
+  playerId?: string;
+  expiresAt?: number;
+}
+
+type SessionListener = (session: PlayerSession) => void;
+
+const listeners = new Set<SessionListener>();
+let session: PlayerSession | null = null;
+let token: string | null | undefined;
+// Expiry that was current when the last refresh went out, and how many tokens in a row arrived inside the lead.
+let refreshedExpiry: number | undefined;
+let shortTokens = 0;
+
+function readStorage(key: string): string | null {
+  try {
+    return typeof window === "undefined" ? null : window.sessionStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(key: string, value: string | null) {
+  try {
+    if (typeof window === "undefined") return;
+    if (value === null) window.sessionStorage.removeItem(key);
+    else window.sessionStorage.setItem(key, value);
+  } catch {
+    // Storage can be disabled (private mode, embedded iframes); the session then lives only in memory.
+  }
+}
+
+/** Takes the operator token from the launch URL once and removes it so it does not leak through history or referrers. */
+function readLaunchToken(): string | null {
+  if (typeof window === "undefined") return null;
+  const url = new URL(window.location.href);
+  const param = TOKEN_PARAMS.find((name) => url.searchParams.get(name));
+  if (!param) return readStorage(TOKEN_STORAGE_KEY);
+  const value = url.searchParams.get(param);
+  TOKEN_PARAMS.forEach((name) => url.searchParams.delete(name));
+  window.history.replaceState(window.history.state, "", url.toString());
+  writeStorage(TOKEN_STORAGE_KEY, value);
+  return value;
+}
+
+function currentSession(): PlayerSession {
+  if (!session) {
+    const sessionId = readStorage(SESSION_STORAGE_KEY) ?? createId("session");
+    writeStorage(SESSION_STORAGE_KEY, sessionId);
+    session = { sessionId, status: "anonymous" };
+  }
+  return session;
+}
+
+function update(next: Partial<PlayerSession>) {
+  session = { ...currentSession(), ...next };
+  const snapshot = session;
+  listeners.forEach((listener) => listener(snapshot));
+  gameBus.emit("game:session:state", {
+    sessionId: snapshot.sessionId,
+    status: snapshot.status,
+    playerId: snapshot.playerId,
+  });
+}
+
+export function getSessionId(): string {
+  return currentSession().sessionId;
+}
+
+export function getSession(): PlayerSession {
+  return currentSession();
+}
+
+export function getSessionToken(): string | null {
+  if (token === undefined) token = readLaunchToken();
+  return token;
+}
+
+/** Payload of a `session.auth` request, or null when the game was launched without an operator token. */
+export function buildAuthPayload(): { token: string; sessionId: string } | null {
+  const value = getSessionToken();
+  return value ? { token: value, sessionId: getSessionId() } : null;
+}
+
+export function markAuthenticating() {
+  update({ status: "authenticating" });
+}
+
+export function applyAuthResult(result: AuthResult) {
+  if (result.token) {
+    token = result.token;
+    writeStorage(TOKEN_STORAGE_KEY, result.token);
+  }
+  const parsed = result.expiresAt ? Date.parse(result.expiresAt) : undefined;
+  const expiresAt = Number.isFinite(parsed) ? parsed : undefined;
+  if (expiresAt !== undefined) {
+    shortTokens = expiresAt - REFRESH_LEAD_MS - Date.now() < MIN_REFRESH_DELAY_MS ? shortTokens + 1 : 0;
+  }
+  update({ status: "active", playerId: result.playerId, expiresAt });
+}
+
+/** Called as a scheduled refresh goes out; msUntilRefresh stops planning more until the expiry moves forward. */
+export function markRefreshing() {
+  refreshedExpiry = currentSession().expiresAt;
+}
+
+export function markSessionExpired() {
+  if (currentSession().status === "expired") return;
+  token = null;
+  writeStorage(TOKEN_STORAGE_KEY, null);
+  update({ status: "expired" });
+}
+
+/**
+ * Milliseconds until the session should be refreshed, or null when the server did not announce an expiry or the
+ * last refresh did not move it forward; requests then re-authenticate on demand when the session expires.
+ */
+export function msUntilRefresh(now = Date.now()): number | null {
+  const { expiresAt, status } = currentSession();
+  if (status !== "active" || !expiresAt) return null;
+  if (refreshedExpiry !== undefined && expiresAt <= refreshedExpiry) return null;
+  const delay = expiresAt - REFRESH_LEAD_MS - now;
+  if (delay >= MIN_REFRESH_DELAY_MS) return delay;
+  return Math.min(MAX_REFRESH_DELAY_MS, MIN_REFRESH_DELAY_MS * 2 ** Math.max(0, shortTokens - 1));
+}
+
+export function subscribeSession(listener: SessionListener): () => void {
+  listeners.add(listener);
+  listener(currentSession());
+  return () => {
+    listeners.delete(listener);
+  };
+}
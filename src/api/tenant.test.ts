@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { resolveTenant, TenantError, type TenantOptions } from "./tenant";
+
+const options: TenantOptions = { precedence: ["query", "path", "subdomain", "env"], allowList: null };
+
+function at(url: string) {
+  const { hostname, pathname, search } = new URL(url);
+  return { hostname, pathname, search };
+}
+
+describe("resolveTenant", () => {
+  it("falls back to the build-time codes", () => {
+    expect(resolveTenant(options, at("http://localhost:3000/"))).toEqual({
+      clientCode: "demo",
+      companyCode: "demo",
+      gameCode: "e-instant",
+    });
+    expect(resolveTenant(options, null).clientCode).toBe("demo");
+  });
+
+  it("reads query parameters, path segments and subdomains", () => {
+    expect(resolveTenant(options, at("http://localhost/?client=acme&company=north&game=gold"))).toEqual({
+      clientCode: "acme",
+      companyCode: "north",
+      gameCode: "gold",
+    });
+    expect(resolveTenant(options, at("http://localhost/t/acme/south"))).toEqual({
+      clientCode: "acme",
+      companyCode: "south",
+      gameCode: "e-instant",
+    });
+    const subdomains = { ...options, baseDomain: "juegos.example.com" };
+    expect(resolveTenant(subdomains, at("https://acme.juegos.example.com/")).companyCode).toBe("acme");
+    expect(resolveTenant(subdomains, at("https://www.juegos.example.com/")).clientCode).toBe("demo");
+  });
+
+  it("leaves subdomains alone without a base domain", () => {
+    expect(resolveTenant(options, at("https://acme.juegos.example.com/")).clientCode).toBe("demo");
+    expect(resolveTenant(options, at("https://piloto.vercel.app/")).clientCode).toBe("demo");
+  });
+
+  it("follows the configured precedence", () => {
+    const url = at("https://beta.juegos.example.com/t/gamma?client=alpha");
+    expect(resolveTenant(options, url).clientCode).toBe("alpha");
+    expect(
+      resolveTenant({ ...options, precedence: ["subdomain", "query"], baseDomain: "juegos.example.com" }, url)
+        .clientCode,
+    ).toBe("beta");
+    expect(resolveTenant({ ...options, precedence: ["path", "query"] }, url).clientCode).toBe("gamma");
+    expect(resolveTenant({ ...options, precedence: ["env", "query"] }, url).clientCode).toBe("demo");
+  });
+
+  it("ignores malformed codes and rejects tenants outside the allow-list", () => {
+    expect(resolveTenant(options, at("http://localhost/?client=../admin")).clientCode).toBe("demo");
+    const allowList = { ...options, allowList: ["acme/north", "demo"] };
+    expect(resolveTenant(allowList, at("http://localhost/?client=acme&company=north")).clientCode).toBe("acme");
+    expect(() => resolveTenant(allowList, at("http://localhost/?client=acme&company=south"))).toThrow(TenantError);
+  });
+});
@@ -0,0 +1,138 @@
+export type TenantSource = "query" | "subdomain" | "path" | "env";
+
+export interface TenantCodes {
+  clientCode: string;
+  companyCode: string;
+  gameCode: string;
+}
+
+export interface TenantOptions {
+  precedence: TenantSource[];
+  /** Entries are `client`, `client/company` or `client/company/game`; null allows every tenant. */
+  allowList: string[] | null;
+  /** Host the operator subdomains hang from, e.g. `juegos.example.com`; without it subdomains are ignored. */
+  baseDomain?: string;
+}
+
+export interface TenantLocation {
+  hostname: string;
+  pathname: string;
+  search: string;
+}
+
+export class TenantError extends Error {
+  readonly tenant: TenantCodes;
+
+  constructor(tenant: TenantCodes) {
+    super(`Tenant ${tenant.clientCode}/${tenant.companyCode}/${tenant.gameCode} is not allowed.`);
+    this.name = "TenantError";
+    this.tenant = tenant;
+  }
+}
+
+// Path form served by the rewrite in next.config.ts: /t/<client>[/<company>[/<game>]].
+const PATH_PREFIX = "t";
+const SOURCES: readonly TenantSource[] = ["query", "subdomain", "path", "env"];
+const DEFAULT_PRECEDENCE: TenantSource[] = ["query", "path", "subdomain", "env"];
+const CODE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const IGNORED_SUBDOMAINS = new Set(["www", "app", "game", "juego"]);
+
+type PartialTenant = Partial<TenantCodes>;
+
+function sanitize(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed && CODE_PATTERN.test(trimmed) ? trimmed : undefined;
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+export function envTenant(): TenantCodes {
+  return {
+    clientCode: process.env.NEXT_PUBLIC_CLIENT_CODE ?? "demo",
+    companyCode: process.env.NEXT_PUBLIC_COMPANY_CODE ?? "demo",
+    gameCode: process.env.NEXT_PUBLIC_GAME_CODE ?? "e-instant",
+  };
+}
+
+export function resolveTenantOptions(): TenantOptions {
+  const precedence = parseList(process.env.NEXT_PUBLIC_TENANT_PRECEDENCE).filter((source): source is TenantSource =>
+    SOURCES.includes(source as TenantSource),
+  );
+  const allowList = parseList(process.env.NEXT_PUBLIC_TENANT_ALLOWLIST);
+  return {
+    precedence: precedence.length > 0 ? precedence : DEFAULT_PRECEDENCE,
+    allowList: allowList.length > 0 ? allowList : null,
+    baseDomain: process.env.NEXT_PUBLIC_TENANT_BASE_DOMAIN?.trim() || undefined,
+  };
+}
+
+function fromQuery(search: string): PartialTenant {
+  const params = new URLSearchParams(search);
+  return {
+    clientCode: sanitize(params.get("client") ?? params.get("clientCode")),
+    companyCode: sanitize(params.get("company") ?? params.get("companyCode")),
+    gameCode: sanitize(params.get("game") ?? params.get("gameCode")),
+  };
+}
+
+function fromPath(pathname: string): PartialTenant {
+  const [prefix, clientCode, companyCode, gameCode] = pathname.split("/").filter(Boolean);
+  if (prefix !== PATH_PREFIX) return {};
+  return { clientCode: sanitize(clientCode), companyCode: sanitize(companyCode), gameCode: sanitize(gameCode) };
+}
+
+/** Without a configured base domain there is no telling a tenant label from the hosting provider's own. */
+function fromSubdomain(hostname: string, baseDomain?: string): PartialTenant {
+  if (!baseDomain) return {};
+  const host = hostname.toLowerCase();
+  const suffix = `.${baseDomain.toLowerCase()}`;
+  if (!host.endsWith(suffix)) return {};
+  const label = host.slice(0, -suffix.length).split(".").pop();
+  return label && IGNORED_SUBDOMAINS.has(label) ? {} : { clientCode: sanitize(label) };
+}
+
+function isAllowed(tenant: TenantCodes, allowList: string[] | null): boolean {
+  if (!allowList) return true;
+  const candidates = [
+    tenant.clientCode,
+    `${tenant.clientCode}/${tenant.companyCode}`,
+    `${tenant.clientCode}/${tenant.companyCode}/${tenant.gameCode}`,
+  ];
+  return allowList.some((entry) => candidates.includes(entry));
+}
+
+/**
+ * The first source in precedence order that names a client wins; its company defaults to the client code and
+ * its game to the build default. Throws TenantError when the result is not in the allow-list.
+ */
+export function resolveTenant(
+  options: TenantOptions = resolveTenantOptions(),
+  location: TenantLocation | null = typeof window === "undefined" ? null : window.location,
+): TenantCodes {
+  const defaults = envTenant();
+  let tenant = defaults;
+  for (const source of options.precedence) {
+    if (source === "env") break;
+    if (!location) continue;
+    const found =
+      source === "query"
+        ? fromQuery(location.search)
+        : source === "path"
+          ? fromPath(location.pathname)
+          : fromSubdomain(location.hostname, options.baseDomain);
+    if (!found.clientCode) continue;
+    tenant = {
+      clientCode: found.clientCode,
+      companyCode: found.companyCode ?? found.clientCode,
+      gameCode: found.gameCode ?? defaults.gameCode,
+    };
+    break;
+  }
+  if (!isAllowed(tenant, options.allowList)) throw new TenantError(tenant);
+  return tenant;
+}
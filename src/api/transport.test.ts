@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { gameBus } from "@/game/events";
+import { configuredHttpHello, getProtocolAgreement, isProtocolRefused, supportsCapability } from "./protocol";
+import { createHttpTransport } from "./transport";
+
+describe("HTTP transport protocol", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("agrees on the configured capabilities only", () => {
+    createHttpTransport({ versions: [2], capabilities: ["server-bonus", "resume"] });
+    expect(getProtocolAgreement()).toEqual({ version: 2, capabilities: ["server-bonus", "resume"] });
+    expect(supportsCapability("compact-outcomes")).toBe(false);
+  });
+
+  it("reports a backend without server-bonus as incompatible and refuses its requests", async () => {
+    const reported: string[] = [];
+    const stop = gameBus.on("game:protocol:incompatible", ({ message }) => reported.push(message));
+    const transport = createHttpTransport({ versions: [1, 2], capabilities: ["bonus", "pack-stream"] });
+    stop();
+
+    await expect(transport.request("config.get", {})).rejects.toMatchObject({ kind: "incompatible" });
+    expect(reported).toHaveLength(1);
+    expect(isProtocolRefused()).toBe(true);
+    expect(getProtocolAgreement()).toBeNull();
+  });
+
+  it("reads the backend hello from the environment and takes an unconfigured backend for a legacy one", () => {
+    expect(configuredHttpHello()).toEqual({ versions: [1], capabilities: ["bonus"] });
+    vi.stubEnv("NEXT_PUBLIC_HTTP_PROTOCOL_VERSIONS", "1, 2");
+    vi.stubEnv("NEXT_PUBLIC_HTTP_CAPABILITIES", "bonus, server-bonus");
+    expect(configuredHttpHello()).toEqual({ versions: [1, 2], capabilities: ["bonus", "server-bonus"] });
+  });
+});
@@ -0,0 +1,115 @@
+import { ApiClientError } from "./errors";
+import { httpTransport } from "./http-transport";
+import { createMockTransport } from "./mock-transport";
+import {
+  configuredHttpHello,
+  MOCK_AGREEMENT,
+  negotiateProtocol,
+  reportIncompatibleProtocol,
+  setProtocolAgreement,
+} from "./protocol";
+import type { ProtocolHello } from "./types";
+import { hasWsConnected, wsTransport } from "./ws-transport";
+
+export type TransportKind = "ws" | "http" | "mock";
+export type TransportPreference = TransportKind | "auto";
+export type GameRequestType =
+  | "session.auth"
+  | "config.get"
+  | "wallet.get"
+  | "history.list"
+  | "play.single"
+  | "play.pack"
+  | "play.pending"
+  | "play.finish";
+
+export interface TransportRequestOptions {
+  timeoutMs?: number;
+  /** Aborting rejects the call with a "cancelled" ApiClientError; the server may still process it. */
+  signal?: AbortSignal;
+  /** Receives the intermediate messages of a streamed response; the request resolves with the final one. */
+  onChunk?: (chunk: { event: string; data?: unknown }) => void;
+  /** Re-send the request after a reconnect instead of failing it when the connection drops. */
+  retryOnReconnect?: boolean;
+}
+
+export interface GameTransport {
+  readonly kind: TransportKind;
+  request(type: GameRequestType, payload: unknown, options?: TransportRequestOptions): Promise<unknown>;
+}
+
+const TRANSPORT_PARAM = "transport";
+const PREFERENCES: readonly TransportPreference[] = ["auto", "ws", "http", "mock"];
+
+let activeTransport: GameTransport | null = null;
+
+function parsePreference(value: string | null | undefined): TransportPreference | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return PREFERENCES.find((preference) => preference === normalized);
+}
+
+export function resolveTransportPreference(): TransportPreference {
+  const fromUrl =
+    typeof window !== "undefined"
+      ? parsePreference(new URLSearchParams(window.location.search).get(TRANSPORT_PARAM))
+      : undefined;
+  return fromUrl ?? parsePreference(process.env.NEXT_PUBLIC_TRANSPORT) ?? "auto";
+}
+
+/**
+ * HTTP sends no hello; the configured backend hello is negotiated in its place. A backend this build cannot play
+ * is reported right away and every request is refused with the same error.
+ */
+export function createHttpTransport(hello: ProtocolHello = configuredHttpHello()): GameTransport {
+  let refusal: ApiClientError | null = null;
+  try {
+    setProtocolAgreement(negotiateProtocol(hello));
+  } catch (err) {
+    if (!(err instanceof ApiClientError)) throw err;
+    refusal = err;
+    reportIncompatibleProtocol(err);
+  }
+  return {
+    kind: "http",
+    request(type, payload, options) {
+      return refusal ? Promise.reject(refusal) : httpTransport.request(type, payload, options);
+    },
+  };
+}
+
+/** Starts on the WebSocket and switches to HTTP for good if the socket cannot be opened at all. */
+function createAutoTransport(): GameTransport {
+  let current: GameTransport = typeof WebSocket === "undefined" ? createHttpTransport() : wsTransport;
+
+  return {
+    get kind() {
+      return current.kind;
+    },
+    async request(type, payload, options) {
+      if (current === wsTransport) {
+        try {
+          return await wsTransport.request(type, payload, options);
+        } catch (err) {
+          const blocked = err instanceof ApiClientError && err.kind === "disconnected" && !hasWsConnected();
+          if (!blocked) throw err;
+          current = createHttpTransport();
+        }
+      }
+      return current.request(type, payload, options);
+    },
+  };
+}
+
+export function getTransport(): GameTransport {
+  if (!activeTransport) {
+    const preference = resolveTransportPreference();
+    if (preference === "mock") {
+      setProtocolAgreement(MOCK_AGREEMENT);
+      activeTransport = createMockTransport(process.env.NEXT_PUBLIC_MOCK_SEED || undefined);
+    } else {
+      activeTransport =
+        preference === "ws" ? wsTransport : preference === "http" ? createHttpTransport() : createAutoTransport();
+    }
+  }
+  return activeTransport;
+}
@@ -60,12 +60,35 @@ export interface ClientBranding {
   fontFamily?: string;
 }
 
+/** Per-session safeguards set by the operator; every field is optional and a missing one disables that check. */
+export interface ResponsibleGamingConfig {
+  /** Minutes between reality checks. */
+  realityCheckMinutes?: number;
+  /** Most the player may lose in one session (bets minus winnings), in minor units. */
+  sessionLossLimit?: number;
+  /** Most the player may bet in one session, in minor units. */
+  sessionBetLimit?: number;
+  /** Break lengths offered for a self-imposed cool-off, in minutes. */
+  coolOffMinutes?: number[];
+}
+
+/** Regulatory bounds for autoplay, set per client; without it the game does not offer autoplay. */
+export interface AutoplayConfig {
+  maxRounds: number;
+  /** Ticket counts offered to the player; anything above maxRounds is dropped. */
+  roundOptions?: number[];
+  /** Some jurisdictions only allow autoplay once the player has set a loss stop. */
+  requireLossLimit?: boolean;
+}
+
 export interface LevelBonusConfig {
   triggerSymbol: string;
   triggerCount: number;
   prizeMultipliers: number[];
   maxRounds: number;
   endCode: string;
+  /** Prize tables for bonus levels 2 and 3; hitting the level-up cell moves the bonus to the next table. */
+  levelTiers?: number[][];
 }
 
 export interface EngineLevelConfig {
@@ -95,6 +118,8 @@ export interface GameConfig {
   clientCode: string;
   companyCode: string;
   gameCode: string;
+  /** Server-side revision of the config; the client falls back to a content hash when it is missing. */
+  version?: string;
   money: MoneyFormat;
   betOptions: BetOptions;
   betValues?: number[];
@@ -110,6 +135,8 @@ export interface GameConfig {
   engine?: EngineConfig;
   symbolPaytable?: SymbolPaytableEntry[];
   branding?: ClientBranding;
+  responsibleGaming?: ResponsibleGamingConfig;
+  autoplay?: AutoplayConfig;
 }
 
 export interface CellRef {
@@ -122,6 +149,20 @@ export interface DropIn {
   symbols: string[];
 }
 
+/** One cell of a bonus round as dealt by the server; `amount` is already in bet currency. */
+export interface BonusCell {
+  /** `level-up` (the octopus) pays nothing and raises the prize level of the following rounds. */
+  type: "prize" | "end" | "level-up";
+  multiplier: number;
+  amount: number;
+}
+
+export interface BonusRound {
+  cells: BonusCell[];
+  /** Index of the cell this round reveals; the player's tap only decides where it is shown. */
+  pick: number;
+}
+
 export interface CascadeStep {
   removeCells: CellRef[];
   dropIn: DropIn[];
@@ -135,6 +176,12 @@ export interface CascadeStep {
     prizeMultipliers: number[];
     endCode: string;
     maxRounds: number;
+    /** Highest prize level this bonus can reach; 1 (no level-up cells) when missing. */
+    maxLevel?: number;
+    /** Every round of the bonus, decided by the server; all but the last reveal a prize. */
+    rounds: BonusRound[];
+    /** Sum of the revealed prizes, already included in the ticket's totalWin. */
+    totalWin: number;
   };
 }
 
@@ -145,6 +192,9 @@ export interface PlayOutcome {
   grid0: string[][];
   cascades: CascadeStep[];
   totalWin: number;
+  /** Wallet balance right before the ticket was charged and after its win was booked. */
+  balanceBefore?: number;
+  balanceAfter?: number;
 }
 
 export interface PackPlay {
@@ -164,17 +214,194 @@ export interface PackOutcome {
   totalBet: number;
   totalWin: number;
   bestIndex?: number;
+  balanceBefore?: number;
+  balanceAfter?: number;
+}
+
+export interface PackStreamHeader {
+  packId: string;
+  packLevel: PackLevel;
+  packSize: PackSize;
+  totalBet: number;
+}
+
+export interface PackStreamComplete {
+  totalWin: number;
+  bestIndex?: number;
+  balanceBefore?: number;
+  balanceAfter?: number;
+}
+
+export type PackStreamEvent = { event: "header"; data: PackStreamHeader } | { event: "play"; data: PackPlay };
+
+export type HistoryScope = "session" | "player";
+
+export interface HistoryQuery {
+  /** `session` lists this launch only; `player` every session of the authenticated player. */
+  scope: HistoryScope;
+  mode?: GameMode;
+  /** Inclusive `YYYY-MM-DD` bounds in the player's local date. */
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export type HistoryEntry =
+  | { kind: "play"; playedAt: string; outcome: PlayOutcome }
+  | { kind: "pack"; playedAt: string; outcome: PackOutcome };
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  /** Absent on the last page. */
+  nextCursor?: string;
+}
+
+export type OutcomeEncoding = "full" | "compact";
+
+/**
+ * Cells are row-major indices (`row * cols + col`) and symbols are indices into `symbols`. `gridAfter` lists
+ * `[cell, symbol, cell, symbol, ...]` changes against the previous grid sent (`grid0` or an earlier `gridAfter`).
+ * Each bonus round is `[pick, type, multiplier, amount, type, multiplier, amount, ...]`, with `type` 0 for a prize,
+ * 1 for the end cell and 2 for a level-up.
+ */
+export interface CompactCascadeStep {
+  removeCells: number[];
+  dropIn: { col: number; symbols: number[] }[];
+  winStep: number;
+  gridAfter?: number[];
+  bonus?: boolean;
+  bonusData?: Omit<NonNullable<CascadeStep["bonusData"]>, "triggerCells" | "rounds"> & {
+    triggerCells?: number[];
+    rounds: number[][];
+  };
+}
+
+export interface CompactGrid {
+  symbols: string[];
+  rows: number;
+  cols: number;
+}
+
+export interface CompactPlay {
+  playId: string;
+  mode: GameMode;
+  bet: number;
+  ticketIndex?: number;
+  grid0: number[];
+  cascades: CompactCascadeStep[];
+  totalWin: number;
+  balanceBefore?: number;
+  balanceAfter?: number;
+}
+
+/** A standalone play carries its own symbol table and board size. */
+export interface CompactPlayOutcome extends CompactPlay, CompactGrid {
+  encoding: "compact";
+}
+
+/** Plays of a pack share the pack's symbol table and board size. */
+export interface CompactPackOutcome extends CompactGrid {
+  encoding: "compact";
+  packId: string;
+  packLevel: PackLevel;
+  plays: CompactPlay[];
+  totalBet: number;
+  totalWin: number;
+  bestIndex?: number;
+  balanceBefore?: number;
+  balanceAfter?: number;
 }
 
 export interface ApiError {
   message: string;
   status?: number;
+  code?: string;
+  retryAfterMs?: number;
   cause?: unknown;
 }
 
+export interface JackpotUpdate {
+  mayor: number;
+  menor: number;
+}
+
+export interface ConfigChangedNotice {
+  clientCode: string;
+  companyCode: string;
+  gameCode: string;
+  version?: string;
+}
+
+export interface WalletBalance {
+  balance: number;
+  currency?: string;
+}
+
+/** Answer to `play.pending`: the last single ticket the client has not reported as fully shown, if any. */
+export interface PendingPlayResult {
+  play: PlayOutcome | null;
+}
+
+export interface BalanceChange {
+  balance: number;
+  currency?: string;
+  reason?: string;
+}
+
+export interface MaintenanceNotice {
+  active: boolean;
+  message: string;
+  startsAt?: string;
+  endsAt?: string;
+}
+
+export interface PushTopics {
+  "jackpot.update": JackpotUpdate;
+  "config.changed": ConfigChangedNotice;
+  "balance.changed": BalanceChange;
+  "maintenance.notice": MaintenanceNotice;
+}
+
+export type PushTopic = keyof PushTopics;
+
+export type ConnectionState = "connecting" | "open" | "reconnecting" | "offline";
+
+export type SessionStatus = "anonymous" | "authenticating" | "active" | "expired";
+
+export interface AuthResult {
+  playerId: string;
+  /** ISO timestamp after which the server rejects the session. */
+  expiresAt?: string;
+  /** Rotated token to use for the next re-authentication instead of the launch token. */
+  token?: string;
+}
+
+export type ProtocolCapability =
+  | "bonus"
+  | "server-bonus"
+  | "pack-stream"
+  | "compact-outcomes"
+  | "signatures"
+  | "resume";
+
+/** Sent by both sides right after the socket opens: every envelope version and capability the sender speaks. */
+export interface ProtocolHello {
+  versions: number[];
+  capabilities: string[];
+}
+
+/** Highest version both sides speak, and the capabilities both enabled for it. */
+export interface ProtocolAgreement {
+  version: number;
+  capabilities: ProtocolCapability[];
+}
+
 export interface WsRequest<T = unknown> {
   type: string;
   requestId: string;
+  /** Negotiated envelope version; absent on the hello itself and towards servers that predate it. */
+  protocol?: number;
   payload?: T;
 }
 
@@ -185,3 +412,22 @@ export interface WsResponse<T = unknown> {
   data?: T;
   error?: ApiError;
 }
+
+export interface WsPong {
+  type: "pong";
+  requestId?: string;
+}
+
+/** Intermediate message of a streamed response; the final one arrives as a regular `response`. */
+export interface WsStream {
+  type: "stream";
+  requestId: string;
+  event: string;
+  data?: unknown;
+}
+
+export interface WsPush<K extends PushTopic = PushTopic> {
+  type: "push";
+  topic: K;
+  data: PushTopics[K];
+}
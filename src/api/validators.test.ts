@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  isPushTopic,
+  validateHistoryPage,
+  validatePackOutcome,
+  validatePackStreamEvent,
+  validatePendingPlayResult,
+  validatePlayOutcome,
+  ValidationError,
+} from "./validators";
+
+const play = {
+  playId: "play-1",
+  mode: "nivel1",
+  bet: 100,
+  grid0: [
+    ["A", "B", "C"],
+    ["A", "B", "C"],
+  ],
+  cascades: [
+    {
+      removeCells: [{ row: 0, col: 0 }],
+      dropIn: [{ col: 0, symbols: ["D"] }],
+      winStep: 50,
+      gridAfter: [
+        ["D", "B", "C"],
+        ["A", "B", "C"],
+      ],
+    },
+  ],
+  totalWin: 50,
+};
+
+function pathOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (err) {
+    return err instanceof ValidationError ? err.path : "not-a-validation-error";
+  }
+  return null;
+}
+
+describe("validatePlayOutcome", () => {
+  it("accepts a well formed outcome", () => {
+    expect(validatePlayOutcome(play)).toBe(play);
+  });
+
+  it("names the offending path for ragged grids and missing cascades", () => {
+    expect(pathOf(() => validatePlayOutcome({ ...play, grid0: [["A", "B", "C"], ["A"]] }))).toBe("play.grid0[1]");
+    expect(pathOf(() => validatePlayOutcome({ ...play, cascades: undefined }))).toBe("play.cascades");
+  });
+
+  it("only accepts a bonus whose total matches the revealed prizes", () => {
+    const prize = { type: "prize", multiplier: 2, amount: 200 };
+    const end = { type: "end", multiplier: 0, amount: 0 };
+    const rounds = [
+      { cells: [prize, end], pick: 0 },
+      { cells: [end, prize], pick: 0 },
+    ];
+    const bonusData = { mode: "nivel1", triggerCount: 2, prizeMultipliers: [2], endCode: "FIN", maxRounds: 5, rounds };
+    const step = { removeCells: [], dropIn: [], winStep: 0, bonus: true, bonusData: { ...bonusData, totalWin: 200 } };
+    expect(validatePlayOutcome({ ...play, cascades: [step], totalWin: 200 })).toBeTruthy();
+
+    const padded = { ...step, bonusData: { ...bonusData, totalWin: 400 } };
+    expect(pathOf(() => validatePlayOutcome({ ...play, cascades: [padded] }))).toBe("play.cascades[0].bonusData.totalWin");
+    const early = { ...step, bonusData: { ...bonusData, rounds: [...rounds].reverse(), totalWin: 200 } };
+    expect(pathOf(() => validatePlayOutcome({ ...play, cascades: [early] }))).toBe(
+      "play.cascades[0].bonusData.rounds[0].pick",
+    );
+  });
+
+  it("lets the octopus raise the bonus level only up to maxLevel", () => {
+    const octopus = { type: "level-up", multiplier: 0, amount: 0 };
+    const end = { type: "end", multiplier: 0, amount: 0 };
+    const rounds = [
+      { cells: [octopus, end], pick: 0 },
+      { cells: [octopus, end], pick: 0 },
+      { cells: [octopus, end], pick: 1 },
+    ];
+    const bonusData = { mode: "nivel2", triggerCount: 3, prizeMultipliers: [4], endCode: "FIN", maxRounds: 5, rounds };
+    const withLevels = (maxLevel?: number) => ({
+      ...play,
+      cascades: [
+        { removeCells: [], dropIn: [], winStep: 0, bonus: true, bonusData: { ...bonusData, maxLevel, totalWin: 0 } },
+      ],
+    });
+    expect(validatePlayOutcome(withLevels(3))).toBeTruthy();
+    expect(pathOf(() => validatePlayOutcome(withLevels(2)))).toBe("play.cascades[0].bonusData.rounds[1].pick");
+    expect(pathOf(() => validatePlayOutcome(withLevels()))).toBe("play.cascades[0].bonusData.rounds[0].pick");
+  });
+
+  it("rejects cells outside the board", () => {
+    const step = { ...play.cascades[0], removeCells: [{ row: 5, col: 0 }] };
+    expect(pathOf(() => validatePlayOutcome({ ...play, cascades: [step] }))).toBe("play.cascades[0].removeCells[0].row");
+  });
+});
+
+describe("validatePackOutcome", () => {
+  it("validates every ticket in the pack", () => {
+    const pack = {
+      packId: "pack-1",
+      packLevel: "nivel1",
+      plays: [{ ...play, ticketIndex: 0 }, { ...play, ticketIndex: 1, totalWin: "50" }],
+      totalBet: 200,
+      totalWin: 100,
+    };
+    expect(pathOf(() => validatePackOutcome(pack))).toBe("pack.plays[1].totalWin");
+  });
+});
+
+describe("validatePackStreamEvent", () => {
+  it("accepts headers and tickets and rejects unknown events", () => {
+    const header = { event: "header", data: { packId: "pack-1", packLevel: "nivel2", packSize: 10, totalBet: 1000 } };
+    expect(validatePackStreamEvent(header)).toBe(header);
+    expect(pathOf(() => validatePackStreamEvent({ event: "play", data: { ...play, ticketIndex: "0" } }))).toBe(
+      "packStream.data.ticketIndex",
+    );
+    expect(pathOf(() => validatePackStreamEvent({ event: "footer", data: {} }))).toBe("packStream.event");
+  });
+});
+
+describe("validateHistoryPage", () => {
+  it("validates each entry against its outcome kind", () => {
+    const page = {
+      entries: [
+        { kind: "play", playedAt: "2026-01-01T10:00:00Z", outcome: play },
+        { kind: "pack", playedAt: "2026-01-01T09:00:00Z", outcome: { ...play, ticketIndex: 0 } },
+      ],
+      nextCursor: "2",
+    };
+    expect(pathOf(() => validateHistoryPage(page))).toBe("history.entries[1].outcome.packId");
+    expect(validateHistoryPage({ entries: page.entries.slice(0, 1) })).toEqual({ entries: page.entries.slice(0, 1) });
+  });
+});
+
+describe("validatePendingPlayResult", () => {
+  it("reads a missing play as nothing pending", () => {
+    expect(validatePendingPlayResult({})).toEqual({ play: null });
+    expect(validatePendingPlayResult({ play: null })).toEqual({ play: null });
+    expect(validatePendingPlayResult({ play }).play).toBe(play);
+    expect(() => validatePendingPlayResult({ play: { playId: "broken" } })).toThrow(ValidationError);
+  });
+});
+
+describe("isPushTopic", () => {
+  it("only accepts the topics this build validates", () => {
+    expect(isPushTopic("balance.changed")).toBe(true);
+    expect(["toString", "constructor", "__proto__", 42].some(isPushTopic)).toBe(false);
+  });
+});
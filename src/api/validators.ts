@@ -0,0 +1,495 @@
+import type {
+  AuthResult,
+  AutoplayConfig,
+  BetOptions,
+  BoardSpec,
+  BonusCell,
+  BonusRound,
+  CascadeStep,
+  CellRef,
+  ClientBranding,
+  DropIn,
+  EngineConfig,
+  EngineLevelConfig,
+  GameConfig,
+  GameMode,
+  HistoryPage,
+  LevelBonusConfig,
+  ModeConfig,
+  MoneyFormat,
+  PackLevel,
+  PackOutcome,
+  PackPlay,
+  PackSize,
+  PackStreamComplete,
+  PackStreamEvent,
+  PaytableEntry,
+  PendingPlayResult,
+  PlayOutcome,
+  ProtocolHello,
+  PushTopic,
+  PushTopics,
+  ResponsibleGamingConfig,
+  SymbolPaytableEntry,
+  WalletBalance,
+} from "./types";
+
+const GAME_MODES: readonly GameMode[] = ["nivel1", "nivel2", "pack"];
+const PACK_LEVELS: readonly PackLevel[] = ["nivel1", "nivel2"];
+const PACK_SIZES: readonly PackSize[] = [5, 10, 15, 20];
+const FILL_MODES: readonly EngineLevelConfig["fillMode"][] = ["replace", "cascade", "rodillo"];
+
+type GridBounds = { rows: number; cols: number };
+type Check<T> = (value: unknown, path: string) => T;
+
+export class ValidationError extends Error {
+  readonly path: string;
+  readonly reason: string;
+
+  constructor(path: string, reason: string) {
+    super(`${path}: ${reason}`);
+    this.name = "ValidationError";
+    this.path = path;
+    this.reason = reason;
+  }
+}
+
+function fail(path: string, message: string): never {
+  throw new ValidationError(path, message);
+}
+
+function asRecord(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(path, "expected an object");
+  }
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown, path: string): string {
+  if (typeof value !== "string") fail(path, "expected a string");
+  return value;
+}
+
+function asNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "expected a finite number");
+  return value;
+}
+
+function asBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") fail(path, "expected a boolean");
+  return value;
+}
+
+function asOneOf<T extends string | number>(value: unknown, path: string, options: readonly T[]): T {
+  if (!options.includes(value as T)) fail(path, `expected one of ${options.join(", ")}`);
+  return value as T;
+}
+
+function asArray<T>(value: unknown, path: string, item: Check<T>): T[] {
+  if (!Array.isArray(value)) fail(path, "expected an array");
+  return value.map((entry, idx) => item(entry, `${path}[${idx}]`));
+}
+
+function optional<T>(value: unknown, path: string, check: Check<T>): T | undefined {
+  return value === undefined || value === null ? undefined : check(value, path);
+}
+
+function asGrid(value: unknown, path: string): GridBounds {
+  const rows = asArray(value, path, (row, rowPath) => asArray(row, rowPath, asString));
+  if (rows.length === 0) fail(path, "expected at least one row");
+  const cols = rows[0].length;
+  if (cols === 0) fail(`${path}[0]`, "expected at least one column");
+  rows.forEach((row, idx) => {
+    if (row.length !== cols) fail(`${path}[${idx}]`, `expected ${cols} columns, got ${row.length}`);
+  });
+  return { rows: rows.length, cols };
+}
+
+function validateCellRef(value: unknown, path: string, bounds: GridBounds): CellRef {
+  const record = asRecord(value, path);
+  const row = asNumber(record.row, `${path}.row`);
+  const col = asNumber(record.col, `${path}.col`);
+  if (row < 0 || row >= bounds.rows) fail(`${path}.row`, `out of bounds (0..${bounds.rows - 1})`);
+  if (col < 0 || col >= bounds.cols) fail(`${path}.col`, `out of bounds (0..${bounds.cols - 1})`);
+  return value as CellRef;
+}
+
+function validateDropIn(value: unknown, path: string, bounds: GridBounds): DropIn {
+  const record = asRecord(value, path);
+  const col = asNumber(record.col, `${path}.col`);
+  if (col < 0 || col >= bounds.cols) fail(`${path}.col`, `out of bounds (0..${bounds.cols - 1})`);
+  asArray(record.symbols, `${path}.symbols`, asString);
+  return value as DropIn;
+}
+
+const BONUS_CELL_TYPES = ["prize", "end", "level-up"] as const;
+const MAX_BONUS_LEVEL = 3;
+
+function validateBonusRound(value: unknown, path: string): BonusRound {
+  const record = asRecord(value, path);
+  const cells = asArray(record.cells, `${path}.cells`, (cell, cellPath): BonusCell => {
+    const entry = asRecord(cell, cellPath);
+    asOneOf(entry.type, `${cellPath}.type`, BONUS_CELL_TYPES);
+    asNumber(entry.multiplier, `${cellPath}.multiplier`);
+    asNumber(entry.amount, `${cellPath}.amount`);
+    return cell as BonusCell;
+  });
+  const pick = asNumber(record.pick, `${path}.pick`);
+  if (!Number.isInteger(pick) || pick < 0 || pick >= cells.length) {
+    fail(`${path}.pick`, `out of bounds (0..${cells.length - 1})`);
+  }
+  return value as BonusRound;
+}
+
+function validateCascadeStep(value: unknown, path: string, bounds: GridBounds): CascadeStep {
+  const record = asRecord(value, path);
+  asArray(record.removeCells, `${path}.removeCells`, (cell, cellPath) => validateCellRef(cell, cellPath, bounds));
+  asArray(record.dropIn, `${path}.dropIn`, (drop, dropPath) => validateDropIn(drop, dropPath, bounds));
+  asNumber(record.winStep, `${path}.winStep`);
+  const gridAfter = optional(record.gridAfter, `${path}.gridAfter`, asGrid);
+  if (gridAfter && (gridAfter.rows !== bounds.rows || gridAfter.cols !== bounds.cols)) {
+    fail(`${path}.gridAfter`, `expected a ${bounds.rows}x${bounds.cols} grid`);
+  }
+  optional(record.bonus, `${path}.bonus`, asBoolean);
+  optional(record.bonusData, `${path}.bonusData`, (data, dataPath) => {
+    const bonus = asRecord(data, dataPath);
+    asOneOf(bonus.mode, `${dataPath}.mode`, PACK_LEVELS);
+    asNumber(bonus.triggerCount, `${dataPath}.triggerCount`);
+    optional(bonus.triggerCells, `${dataPath}.triggerCells`, (cells, cellsPath) =>
+      asArray(cells, cellsPath, (cell, cellPath) => validateCellRef(cell, cellPath, bounds)),
+    );
+    asArray(bonus.prizeMultipliers, `${dataPath}.prizeMultipliers`, asNumber);
+    asString(bonus.endCode, `${dataPath}.endCode`);
+    const maxRounds = asNumber(bonus.maxRounds, `${dataPath}.maxRounds`);
+    const maxLevel = optional(bonus.maxLevel, `${dataPath}.maxLevel`, asNumber) ?? 1;
+    if (!Number.isInteger(maxLevel) || maxLevel < 1 || maxLevel > MAX_BONUS_LEVEL) {
+      fail(`${dataPath}.maxLevel`, `expected 1..${MAX_BONUS_LEVEL}`);
+    }
+    const rounds = asArray(bonus.rounds, `${dataPath}.rounds`, validateBonusRound);
+    if (rounds.length === 0 || rounds.length > maxRounds) {
+      fail(`${dataPath}.rounds`, `expected 1..${maxRounds} rounds`);
+    }
+    const revealed = rounds.map((round) => round.cells[round.pick]);
+    revealed.slice(0, -1).forEach((cell, idx) => {
+      if (cell.type === "end") fail(`${dataPath}.rounds[${idx}].pick`, "only the last round can end the bonus");
+    });
+    let level = 1;
+    revealed.forEach((cell, idx) => {
+      if (cell.type !== "level-up") return;
+      if (level >= maxLevel) fail(`${dataPath}.rounds[${idx}].pick`, "the bonus is already at its top level");
+      level += 1;
+    });
+    const total = revealed.reduce((sum, cell) => (cell.type === "prize" ? sum + cell.amount : sum), 0);
+    if (asNumber(bonus.totalWin, `${dataPath}.totalWin`) !== total) {
+      fail(`${dataPath}.totalWin`, `expected the sum of the revealed prizes (${total})`);
+    }
+    return data;
+  });
+  return value as CascadeStep;
+}
+
+function validatePlayFields(record: Record<string, unknown>, path: string) {
+  asString(record.playId, `${path}.playId`);
+  asOneOf(record.mode, `${path}.mode`, GAME_MODES);
+  asNumber(record.bet, `${path}.bet`);
+  const bounds = asGrid(record.grid0, `${path}.grid0`);
+  asArray(record.cascades, `${path}.cascades`, (step, stepPath) => validateCascadeStep(step, stepPath, bounds));
+  asNumber(record.totalWin, `${path}.totalWin`);
+  validateBalances(record, path);
+}
+
+function validateBalances(record: Record<string, unknown>, path: string) {
+  optional(record.balanceBefore, `${path}.balanceBefore`, asNumber);
+  optional(record.balanceAfter, `${path}.balanceAfter`, asNumber);
+}
+
+export function validatePlayOutcome(value: unknown, path = "play"): PlayOutcome {
+  validatePlayFields(asRecord(value, path), path);
+  return value as PlayOutcome;
+}
+
+export function validatePackPlay(value: unknown, path = "packPlay"): PackPlay {
+  const record = asRecord(value, path);
+  validatePlayFields(record, path);
+  asNumber(record.ticketIndex, `${path}.ticketIndex`);
+  return value as PackPlay;
+}
+
+export function validatePackOutcome(value: unknown, path = "pack"): PackOutcome {
+  const record = asRecord(value, path);
+  asString(record.packId, `${path}.packId`);
+  asOneOf(record.packLevel, `${path}.packLevel`, PACK_LEVELS);
+  asArray(record.plays, `${path}.plays`, validatePackPlay);
+  asNumber(record.totalBet, `${path}.totalBet`);
+  asNumber(record.totalWin, `${path}.totalWin`);
+  optional(record.bestIndex, `${path}.bestIndex`, asNumber);
+  validateBalances(record, path);
+  return value as PackOutcome;
+}
+
+export function validatePackStreamEvent(value: unknown, path = "packStream"): PackStreamEvent {
+  const record = asRecord(value, path);
+  const event = asOneOf(record.event, `${path}.event`, ["header", "play"] as const);
+  if (event === "play") {
+    validatePackPlay(record.data, `${path}.data`);
+    return value as PackStreamEvent;
+  }
+  const header = asRecord(record.data, `${path}.data`);
+  asString(header.packId, `${path}.data.packId`);
+  asOneOf(header.packLevel, `${path}.data.packLevel`, PACK_LEVELS);
+  asOneOf(header.packSize, `${path}.data.packSize`, PACK_SIZES);
+  asNumber(header.totalBet, `${path}.data.totalBet`);
+  return value as PackStreamEvent;
+}
+
+export function validatePackStreamComplete(value: unknown, path = "packStream.complete"): PackStreamComplete {
+  const record = asRecord(value, path);
+  asNumber(record.totalWin, `${path}.totalWin`);
+  optional(record.bestIndex, `${path}.bestIndex`, asNumber);
+  validateBalances(record, path);
+  return value as PackStreamComplete;
+}
+
+function validateMoneyFormat(value: unknown, path: string): MoneyFormat {
+  const record = asRecord(value, path);
+  asString(record.currency, `${path}.currency`);
+  asNumber(record.decimals, `${path}.decimals`);
+  asString(record.thousandSeparator, `${path}.thousandSeparator`);
+  asString(record.decimalSeparator, `${path}.decimalSeparator`);
+  return value as MoneyFormat;
+}
+
+function validateBetOptions(value: unknown, path: string): BetOptions {
+  const record = asRecord(value, path);
+  asNumber(record.minBet, `${path}.minBet`);
+  asNumber(record.maxBet, `${path}.maxBet`);
+  asNumber(record.step, `${path}.step`);
+  return value as BetOptions;
+}
+
+function validateBoardSpec(value: unknown, path: string): BoardSpec {
+  const record = asRecord(value, path);
+  asNumber(record.rows, `${path}.rows`);
+  asNumber(record.cols, `${path}.cols`);
+  asArray(record.symbols, `${path}.symbols`, asString);
+  return value as BoardSpec;
+}
+
+function validatePaytableEntry(value: unknown, path: string): PaytableEntry {
+  const record = asRecord(value, path);
+  asString(record.symbol, `${path}.symbol`);
+  asNumber(record.minCluster, `${path}.minCluster`);
+  asNumber(record.win, `${path}.win`);
+  return value as PaytableEntry;
+}
+
+function validateModeConfig(value: unknown, path: string): ModeConfig {
+  const record = asRecord(value, path);
+  asOneOf(record.code, `${path}.code`, GAME_MODES);
+  asBoolean(record.enabled, `${path}.enabled`);
+  asArray(record.weights, `${path}.weights`, (weight, weightPath) => {
+    const entry = asRecord(weight, weightPath);
+    asString(entry.symbol, `${weightPath}.symbol`);
+    asNumber(entry.weight, `${weightPath}.weight`);
+    return weight;
+  });
+  asArray(record.paytable, `${path}.paytable`, validatePaytableEntry);
+  return value as ModeConfig;
+}
+
+function validateSymbolPaytableEntry(value: unknown, path: string): SymbolPaytableEntry {
+  const record = asRecord(value, path);
+  asString(record.symbol, `${path}.symbol`);
+  asString(record.label, `${path}.label`);
+  asString(record.color, `${path}.color`);
+  asArray(record.matches, `${path}.matches`, (match, matchPath) => {
+    const rule = asRecord(match, matchPath);
+    asNumber(rule.count, `${matchPath}.count`);
+    asNumber(rule.multiplier, `${matchPath}.multiplier`);
+    return match;
+  });
+  return value as SymbolPaytableEntry;
+}
+
+function validateBranding(value: unknown, path: string): ClientBranding {
+  const record = asRecord(value, path);
+  (["logoUrl", "backgroundUrl", "primaryColor", "accentColor", "fontFamily"] as const).forEach((key) => {
+    optional(record[key], `${path}.${key}`, asString);
+  });
+  return value as ClientBranding;
+}
+
+function validateResponsibleGaming(value: unknown, path: string): ResponsibleGamingConfig {
+  const record = asRecord(value, path);
+  (["realityCheckMinutes", "sessionLossLimit", "sessionBetLimit"] as const).forEach((key) => {
+    optional(record[key], `${path}.${key}`, asNumber);
+  });
+  optional(record.coolOffMinutes, `${path}.coolOffMinutes`, (values, valuesPath) =>
+    asArray(values, valuesPath, asNumber),
+  );
+  return value as ResponsibleGamingConfig;
+}
+
+function validateAutoplayConfig(value: unknown, path: string): AutoplayConfig {
+  const record = asRecord(value, path);
+  asNumber(record.maxRounds, `${path}.maxRounds`);
+  optional(record.roundOptions, `${path}.roundOptions`, (values, valuesPath) => asArray(values, valuesPath, asNumber));
+  optional(record.requireLossLimit, `${path}.requireLossLimit`, asBoolean);
+  return value as AutoplayConfig;
+}
+
+function validateLevelBonusConfig(value: unknown, path: string): LevelBonusConfig {
+  const record = asRecord(value, path);
+  asString(record.triggerSymbol, `${path}.triggerSymbol`);
+  asNumber(record.triggerCount, `${path}.triggerCount`);
+  asArray(record.prizeMultipliers, `${path}.prizeMultipliers`, asNumber);
+  asNumber(record.maxRounds, `${path}.maxRounds`);
+  asString(record.endCode, `${path}.endCode`);
+  const tiers = optional(record.levelTiers, `${path}.levelTiers`, (values, valuesPath) =>
+    asArray(values, valuesPath, (tier, tierPath) => {
+      const multipliers = asArray(tier, tierPath, asNumber);
+      if (multipliers.length === 0) fail(tierPath, "expected at least one multiplier");
+      return multipliers;
+    }),
+  );
+  if (tiers && tiers.length > MAX_BONUS_LEVEL - 1) {
+    fail(`${path}.levelTiers`, `expected at most ${MAX_BONUS_LEVEL - 1} tiers above the base prizes`);
+  }
+  return value as LevelBonusConfig;
+}
+
+function validateEngineLevelConfig(value: unknown, path: string): EngineLevelConfig {
+  const record = asRecord(value, path);
+  // Legacy configs still send engineType "reels"; the backoffice normalizes it, so only the type is checked here.
+  asString(record.engineType, `${path}.engineType`);
+  asNumber(record.rows, `${path}.rows`);
+  asNumber(record.cols, `${path}.cols`);
+  asBoolean(record.includeDiagonals, `${path}.includeDiagonals`);
+  asOneOf(record.fillMode, `${path}.fillMode`, FILL_MODES);
+  asNumber(record.maxCascades, `${path}.maxCascades`);
+  asNumber(record.matchMinCluster, `${path}.matchMinCluster`);
+  asArray(record.excludedSymbols, `${path}.excludedSymbols`, asString);
+  validateLevelBonusConfig(record.bonus, `${path}.bonus`);
+  return value as EngineLevelConfig;
+}
+
+function validateEngineConfig(value: unknown, path: string): EngineConfig {
+  const record = asRecord(value, path);
+  const rng = asRecord(record.rng, `${path}.rng`);
+  asString(rng.source, `${path}.rng.source`);
+  optional(rng.seed, `${path}.rng.seed`, asString);
+  const levels = asRecord(record.levels, `${path}.levels`);
+  PACK_LEVELS.forEach((level) => validateEngineLevelConfig(levels[level], `${path}.levels.${level}`));
+  return value as EngineConfig;
+}
+
+export function validateGameConfig(value: unknown, path = "config"): GameConfig {
+  const record = asRecord(value, path);
+  asString(record.clientCode, `${path}.clientCode`);
+  asString(record.companyCode, `${path}.companyCode`);
+  asString(record.gameCode, `${path}.gameCode`);
+  optional(record.version, `${path}.version`, asString);
+  validateMoneyFormat(record.money, `${path}.money`);
+  validateBetOptions(record.betOptions, `${path}.betOptions`);
+  optional(record.betValues, `${path}.betValues`, (values, valuesPath) => asArray(values, valuesPath, asNumber));
+  optional(record.jackpots, `${path}.jackpots`, (jackpots, jackpotsPath) => {
+    const entry = asRecord(jackpots, jackpotsPath);
+    asNumber(entry.mayor, `${jackpotsPath}.mayor`);
+    asNumber(entry.menor, `${jackpotsPath}.menor`);
+    return jackpots;
+  });
+  optional(record.availableModes, `${path}.availableModes`, (modes, modesPath) =>
+    asArray(modes, modesPath, (mode, modePath) => asOneOf(mode, modePath, GAME_MODES)),
+  );
+  optional(record.packLevels, `${path}.packLevels`, (levels, levelsPath) =>
+    asArray(levels, levelsPath, (level, levelPath) => asOneOf(level, levelPath, PACK_LEVELS)),
+  );
+  asArray(record.modes, `${path}.modes`, validateModeConfig);
+  asArray(record.packSizes, `${path}.packSizes`, (size, sizePath) => asOneOf(size, sizePath, PACK_SIZES));
+  validateBoardSpec(record.board, `${path}.board`);
+  optional(record.engine, `${path}.engine`, validateEngineConfig);
+  optional(record.symbolPaytable, `${path}.symbolPaytable`, (entries, entriesPath) =>
+    asArray(entries, entriesPath, validateSymbolPaytableEntry),
+  );
+  optional(record.branding, `${path}.branding`, validateBranding);
+  optional(record.responsibleGaming, `${path}.responsibleGaming`, validateResponsibleGaming);
+  optional(record.autoplay, `${path}.autoplay`, validateAutoplayConfig);
+  return value as GameConfig;
+}
+
+export function validateAuthResult(value: unknown, path = "auth"): AuthResult {
+  const record = asRecord(value, path);
+  asString(record.playerId, `${path}.playerId`);
+  optional(record.expiresAt, `${path}.expiresAt`, asString);
+  optional(record.token, `${path}.token`, asString);
+  return value as AuthResult;
+}
+
+export function validateHistoryPage(value: unknown, path = "history"): HistoryPage {
+  const record = asRecord(value, path);
+  asArray(record.entries, `${path}.entries`, (entry, entryPath) => {
+    const item = asRecord(entry, entryPath);
+    const kind = asOneOf(item.kind, `${entryPath}.kind`, ["play", "pack"] as const);
+    asString(item.playedAt, `${entryPath}.playedAt`);
+    if (kind === "play") validatePlayOutcome(item.outcome, `${entryPath}.outcome`);
+    else validatePackOutcome(item.outcome, `${entryPath}.outcome`);
+    return entry;
+  });
+  optional(record.nextCursor, `${path}.nextCursor`, asString);
+  return value as HistoryPage;
+}
+
+export function validateWalletBalance(value: unknown, path = "wallet"): WalletBalance {
+  const record = asRecord(value, path);
+  asNumber(record.balance, `${path}.balance`);
+  optional(record.currency, `${path}.currency`, asString);
+  return value as WalletBalance;
+}
+
+/** A server that leaves `play` out has nothing pending, the same as one sending `play: null`. */
+export function validatePendingPlayResult(value: unknown, path = "pending"): PendingPlayResult {
+  const record = asRecord(value, path);
+  if (record.play == null) return { play: null };
+  validatePlayOutcome(record.play, `${path}.play`);
+  return value as PendingPlayResult;
+}
+
+export function validateProtocolHello(value: unknown, path = "hello"): ProtocolHello {
+  const record = asRecord(value, path);
+  asArray(record.versions, `${path}.versions`, asNumber);
+  asArray(record.capabilities, `${path}.capabilities`, asString);
+  return value as ProtocolHello;
+}
+
+const PUSH_VALIDATORS: { [K in PushTopic]: (record: Record<string, unknown>, path: string) => void } = {
+  "jackpot.update": (record, path) => {
+    asNumber(record.mayor, `${path}.mayor`);
+    asNumber(record.menor, `${path}.menor`);
+  },
+  "config.changed": (record, path) => {
+    asString(record.clientCode, `${path}.clientCode`);
+    asString(record.companyCode, `${path}.companyCode`);
+    asString(record.gameCode, `${path}.gameCode`);
+    optional(record.version, `${path}.version`, asString);
+  },
+  "balance.changed": (record, path) => {
+    asNumber(record.balance, `${path}.balance`);
+    optional(record.currency, `${path}.currency`, asString);
+    optional(record.reason, `${path}.reason`, asString);
+  },
+  "maintenance.notice": (record, path) => {
+    asBoolean(record.active, `${path}.active`);
+    asString(record.message, `${path}.message`);
+    optional(record.startsAt, `${path}.startsAt`, asString);
+    optional(record.endsAt, `${path}.endsAt`, asString);
+  },
+};
+
+export function isPushTopic(topic: unknown): topic is PushTopic {
+  return typeof topic === "string" && Object.hasOwn(PUSH_VALIDATORS, topic);
+}
+
+export function validatePushData<K extends PushTopic>(topic: K, value: unknown, path = topic as string): PushTopics[K] {
+  PUSH_VALIDATORS[topic](asRecord(value, path), path);
+  return value as PushTopics[K];
+}
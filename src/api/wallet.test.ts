@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+async function loadWallet() {
+  vi.resetModules();
+  return import("./wallet");
+}
+
+describe("wallet", () => {
+  let wallet: Awaited<ReturnType<typeof loadWallet>>;
+
+  beforeEach(async () => {
+    wallet = await loadWallet();
+  });
+
+  it("debits the ticket at once and holds the win until the ticket ends", () => {
+    wallet.applyBalance({ balance: 1000, currency: "CLP" });
+    wallet.applyPurchase(100, { totalWin: 300, balanceBefore: 1000, balanceAfter: 1200 });
+    expect(wallet.getWallet()).toEqual({ balance: 900, currency: "CLP", pendingCredit: 300 });
+
+    wallet.creditWin();
+    expect(wallet.getWallet()).toMatchObject({ balance: 1200, pendingCredit: 0 });
+  });
+
+  it("follows the balance locally when the server does not report it", () => {
+    wallet.applyBalance({ balance: 500 });
+    wallet.applyPurchase(200, { totalWin: 50 });
+    expect(wallet.getWallet()).toMatchObject({ balance: 300, pendingCredit: 50 });
+    wallet.creditWin(20);
+    expect(wallet.getWallet()).toMatchObject({ balance: 320, pendingCredit: 30 });
+  });
+
+  it("keeps pending winnings hidden when a push arrives mid-ticket", () => {
+    wallet.applyBalance({ balance: 1000 });
+    wallet.applyPurchase(100, { totalWin: 400, balanceAfter: 1300 });
+    wallet.applyBalance({ balance: 1300 });
+    expect(wallet.getWallet().balance).toBe(900);
+  });
+
+  it("only blocks purchases once the balance is known", () => {
+    expect(wallet.canAfford(1_000_000)).toBe(true);
+    wallet.applyBalance({ balance: 150 });
+    expect(wallet.canAfford(100)).toBe(true);
+    expect(wallet.canAfford(200)).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { gameBus } from "@/game/events";
+import { fetchWallet, type RequestOptions } from "./client";
+import type { WalletBalance } from "./types";
+
+export interface WalletState {
+  /** Balance shown to the player; null until the server reported one. */
+  balance: number | null;
+  currency?: string;
+  /** Winnings the server already booked but the player has not seen yet; released when the ticket ends. */
+  pendingCredit: number;
+}
+
+type WalletListener = (wallet: WalletState) => void;
+type PurchaseOutcome = { totalWin: number; balanceBefore?: number; balanceAfter?: number };
+
+const listeners = new Set<WalletListener>();
+let wallet: WalletState = { balance: null, pendingCredit: 0 };
+
+function update(next: Partial<WalletState>) {
+  wallet = { ...wallet, ...next };
+  const snapshot = wallet;
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+export function getWallet(): WalletState {
+  return wallet;
+}
+
+/** Takes an authoritative balance from `wallet.get` or a push; winnings still animating stay hidden. */
+export function applyBalance(result: WalletBalance) {
+  update({ balance: result.balance - wallet.pendingCredit, currency: result.currency ?? wallet.currency });
+}
+
+/**
+ * Books a purchase: the cost leaves the shown balance right away while the win waits for creditWin. Servers that
+ * do not report balanceAfter are followed locally from the last known balance.
+ */
+export function applyPurchase(cost: number, outcome: PurchaseOutcome) {
+  const pendingCredit = wallet.pendingCredit + Math.max(0, outcome.totalWin);
+  if (outcome.balanceAfter !== undefined) {
+    update({ balance: outcome.balanceAfter - pendingCredit, pendingCredit });
+    return;
+  }
+  const before = outcome.balanceBefore === undefined ? wallet.balance : outcome.balanceBefore - wallet.pendingCredit;
+  update({ balance: before === null ? null : before - cost, pendingCredit });
+}
+
+/** Releases pending winnings into the shown balance; without an amount everything pending is released. */
+export function creditWin(amount = wallet.pendingCredit) {
+  const credit = Math.min(Math.max(0, amount), wallet.pendingCredit);
+  if (credit === 0) return;
+  update({
+    balance: wallet.balance === null ? null : wallet.balance + credit,
+    pendingCredit: wallet.pendingCredit - credit,
+  });
+}
+
+/** An unknown balance is left to the server to judge. */
+export function canAfford(cost: number, state: WalletState = wallet): boolean {
+  return state.balance === null || state.balance >= cost;
+}
+
+export async function refreshWallet(options?: RequestOptions): Promise<WalletState> {
+  applyBalance(await fetchWallet(options));
+  return wallet;
+}
+
+/** Fetches the balance at launch and follows `balance.changed` pushes. */
+export function startWallet(): () => void {
+  refreshWallet().catch(() => {
+    // Without a balance the game stays playable; the server still rejects purchases it cannot cover.
+  });
+  return gameBus.on("game:balance:changed", (change) => applyBalance(change));
+}
+
+export function subscribeWallet(listener: WalletListener): () => void {
+  listeners.add(listener);
+  listener(wallet);
+  return () => {
+    listeners.delete(listener);
+  };
+}
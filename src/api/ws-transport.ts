@@ -0,0 +1,480 @@
+import { gameBus } from "@/game/events";
+import { computeBackoffDelay, DEFAULT_BACKOFF } from "@/lib/backoff";
+import { createId } from "@/lib/ids";
+import { createLatencyWindow, type LatencyStats } from "@/lib/latency";
+import { getConnectionState, setConnectionState } from "./connection-state";
+import { resolveWsUrl } from "./endpoints";
+import {
+  CLIENT_HELLO,
+  getProtocolAgreement,
+  LEGACY_AGREEMENT,
+  negotiateProtocol,
+  reportIncompatibleProtocol,
+  requireCapabilities,
+  setProtocolAgreement,
+} from "./protocol";
+import { applyAuthResult, buildAuthPayload, markAuthenticating, markSessionExpired } from "./session";
+import { ApiClientError, createCancelledError, fromApiError } from "./errors";
+import type { GameTransport, TransportRequestOptions } from "./transport";
+import type {
+  ApiError,
+  ProtocolHello,
+  PushTopic,
+  PushTopics,
+  WsPong,
+  WsPush,
+  WsRequest,
+  WsResponse,
+  WsStream,
+} from "./types";
+import {
+  isPushTopic,
+  validateAuthResult,
+  validateProtocolHello,
+  validatePushData,
+  ValidationError,
+} from "./validators";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const RECONNECT_POLICY = DEFAULT_BACKOFF;
+// A socket that never opened is most likely blocked by the network; give up early so callers can fall back.
+const INITIAL_CONNECT_ATTEMPTS = 3;
+// A half-open socket never errors on its own; an unanswered ping is how it gets noticed.
+const HEARTBEAT_INTERVAL_MS = 5000;
+const HEARTBEAT_TIMEOUT_MS = 4000;
+const AUTH_TIMEOUT_MS = 10000;
+const HELLO_TIMEOUT_MS = 3000;
+// Error codes a server that predates the hello answers it with; nothing else proves the server is that old.
+const UNKNOWN_TYPE_CODES = new Set(["UNKNOWN_TYPE", "UNSUPPORTED_TYPE", "UNKNOWN_MESSAGE_TYPE"]);
+
+type PendingRequest = {
+  message: string;
+  resolve: (value: unknown) => void;
+  reject: (reason?: unknown) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+  retryOnReconnect: boolean;
+  sent: boolean;
+  onChunk?: TransportRequestOptions["onChunk"];
+  /** Streamed responses re-arm the timeout on every chunk so long streams are not cut off. */
+  restartTimeout?: () => void;
+};
+
+type PushHandler = (data: unknown) => void;
+
+type PendingPing = {
+  requestId: string;
+  sentAt: number;
+  timeoutId: ReturnType<typeof setTimeout>;
+};
+
+const pending = new Map<string, PendingRequest>();
+const pushHandlers = new Map<PushTopic, Set<PushHandler>>();
+let socket: WebSocket | null = null;
+let connecting: Promise<WebSocket> | null = null;
+let hasConnected = false;
+let watchingNetwork = false;
+let heartbeatId: ReturnType<typeof setInterval> | null = null;
+let pendingPing: PendingPing | null = null;
+const heartbeatLatency = createLatencyWindow();
+
+export function hasWsConnected(): boolean {
+  return hasConnected;
+}
+
+/** Round-trip stats of recent heartbeats, or null before the first pong. */
+export function getHeartbeatStats(): LatencyStats | null {
+  return heartbeatLatency.stats();
+}
+
+function stopHeartbeat() {
+  if (heartbeatId) clearInterval(heartbeatId);
+  heartbeatId = null;
+  if (pendingPing) clearTimeout(pendingPing.timeoutId);
+  pendingPing = null;
+}
+
+function markStale(ws: WebSocket) {
+  pendingPing = null;
+  if (socket !== ws) return;
+  // Drop the socket right away; the browser may take minutes to fire "close" on a dead connection.
+  handleSocketClosed(ws);
+  ws.close();
+}
+
+function sendPing(ws: WebSocket) {
+  if (socket !== ws || ws.readyState !== WebSocket.OPEN || pendingPing) return;
+  const message: WsRequest = { type: "ping", requestId: createId("ping") };
+  pendingPing = {
+    requestId: message.requestId,
+    sentAt: performance.now(),
+    timeoutId: setTimeout(() => markStale(ws), HEARTBEAT_TIMEOUT_MS),
+  };
+  ws.send(JSON.stringify(message));
+}
+
+function handlePong() {
+  if (!pendingPing) return;
+  clearTimeout(pendingPing.timeoutId);
+  heartbeatLatency.record(performance.now() - pendingPing.sentAt);
+  pendingPing = null;
+}
+
+function startHeartbeat(ws: WebSocket) {
+  stopHeartbeat();
+  heartbeatId = setInterval(() => sendPing(ws), HEARTBEAT_INTERVAL_MS);
+}
+
+function sendTopics(type: "subscribe" | "unsubscribe", topics: PushTopic[]) {
+  if (topics.length === 0 || !socket || socket.readyState !== WebSocket.OPEN) return;
+  const message: WsRequest<{ topics: PushTopic[] }> = { type, requestId: createId("sub"), payload: { topics } };
+  socket.send(JSON.stringify(message));
+}
+
+export function subscribe<K extends PushTopic>(topic: K, handler: (data: PushTopics[K]) => void): () => void {
+  let handlers = pushHandlers.get(topic);
+  if (!handlers) {
+    handlers = new Set();
+    pushHandlers.set(topic, handlers);
+    sendTopics("subscribe", [topic]);
+  }
+  const entry = handler as PushHandler;
+  handlers.add(entry);
+  return () => {
+    const current = pushHandlers.get(topic);
+    if (!current?.delete(entry) || current.size > 0) return;
+    pushHandlers.delete(topic);
+    sendTopics("unsubscribe", [topic]);
+  };
+}
+
+function handlePush(message: WsPush) {
+  if (!isPushTopic(message.topic)) return;
+  const handlers = pushHandlers.get(message.topic);
+  if (!handlers) return;
+  let data: unknown;
+  try {
+    data = validatePushData(message.topic, message.data);
+  } catch (err) {
+    if (err instanceof ValidationError) {
+      gameBus.emit("game:error", { message: err.message, path: err.path, requestType: message.topic });
+    }
+    return;
+  }
+  handlers.forEach((handler) => handler(data));
+}
+
+function handleStreamChunk(message: WsStream) {
+  const pendingRequest = pending.get(message.requestId);
+  if (!pendingRequest?.onChunk) return;
+  pendingRequest.restartTimeout?.();
+  try {
+    pendingRequest.onChunk({ event: message.event, data: message.data });
+  } catch (err) {
+    clearTimeout(pendingRequest.timeoutId);
+    pending.delete(message.requestId);
+    pendingRequest.reject(err);
+  }
+}
+
+function handleSocketMessage(event: MessageEvent) {
+  let payload: WsResponse | WsPush | WsPong | WsStream;
+  try {
+    payload = JSON.parse(String(event.data));
+  } catch {
+    return;
+  }
+
+  if (payload.type === "push") {
+    handlePush(payload);
+    return;
+  }
+
+  // Backends without ping support answer with an error response; it still proves the socket is alive.
+  if (pendingPing && payload.requestId === pendingPing.requestId) {
+    handlePong();
+    return;
+  }
+
+  if (payload.type === "stream") {
+    handleStreamChunk(payload);
+    return;
+  }
+
+  if (payload.type !== "response" || !payload.requestId) {
+    return;
+  }
+
+  const pendingRequest = pending.get(payload.requestId);
+  if (!pendingRequest) return;
+  clearTimeout(pendingRequest.timeoutId);
+  pending.delete(payload.requestId);
+
+  if (payload.ok) {
+    pendingRequest.resolve(payload.data);
+  } else {
+    const error: ApiError = payload.error ?? { message: "Unknown error" };
+    pendingRequest.reject(fromApiError(error));
+  }
+}
+
+function rejectAllPending(error: ApiClientError) {
+  pending.forEach((value, key) => {
+    clearTimeout(value.timeoutId);
+    value.reject(error);
+    pending.delete(key);
+  });
+}
+
+function flushPending(ws: WebSocket) {
+  pending.forEach((request) => {
+    if (request.sent) return;
+    request.sent = true;
+    ws.send(request.message);
+  });
+}
+
+function handleSocketClosed(ws: WebSocket) {
+  if (socket !== ws) return;
+  socket = null;
+  stopHeartbeat();
+  pending.forEach((request, requestId) => {
+    if (request.retryOnReconnect) {
+      request.sent = false;
+      return;
+    }
+    clearTimeout(request.timeoutId);
+    pending.delete(requestId);
+    request.reject(new ApiClientError("disconnected", "WebSocket connection closed."));
+  });
+  ensureSocket().catch(() => {
+    // Reconnection gave up; the state is already "offline" and pending requests were rejected.
+  });
+}
+
+function watchNetwork() {
+  if (watchingNetwork || typeof window === "undefined") return;
+  watchingNetwork = true;
+  window.addEventListener("online", () => {
+    if (getConnectionState() !== "offline") return;
+    ensureSocket().catch(() => {});
+  });
+}
+
+function openSocket(): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(resolveWsUrl());
+
+    const cleanup = () => {
+      ws.removeEventListener("open", onOpen);
+      ws.removeEventListener("error", onError);
+      ws.removeEventListener("close", onClose);
+    };
+
+    const onOpen = () => {
+      cleanup();
+      resolve(ws);
+    };
+
+    const onError = () => {
+      cleanup();
+      reject(new Error("WebSocket connection failed."));
+    };
+
+    const onClose = () => {
+      cleanup();
+      reject(new Error("WebSocket connection closed before opening."));
+    };
+
+    ws.addEventListener("open", onOpen);
+    ws.addEventListener("error", onError);
+    ws.addEventListener("close", onClose);
+  });
+}
+
+/** Sends a message ahead of the queue; used while the socket is not current yet. Fails as soon as the socket drops. */
+function sendHandshake(ws: WebSocket, message: WsRequest, timeoutMs: number): Promise<unknown> {
+  return new Promise<unknown>((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timeoutId);
+      pending.delete(message.requestId);
+      ws.removeEventListener("close", onDropped);
+      ws.removeEventListener("error", onDropped);
+    };
+    const onDropped = () => {
+      settle();
+      reject(new ApiClientError("disconnected", `WebSocket closed during ${message.type}.`));
+    };
+    const timeoutId = setTimeout(() => {
+      settle();
+      reject(new ApiClientError("timeout", `WebSocket ${message.type} timed out.`));
+    }, timeoutMs);
+    pending.set(message.requestId, {
+      message: JSON.stringify(message),
+      resolve: (value) => {
+        settle();
+        resolve(value);
+      },
+      reject: (reason) => {
+        settle();
+        reject(reason);
+      },
+      timeoutId,
+      retryOnReconnect: false,
+      sent: true,
+    });
+    if (ws.readyState !== WebSocket.OPEN) {
+      onDropped();
+      return;
+    }
+    ws.addEventListener("close", onDropped);
+    ws.addEventListener("error", onDropped);
+    ws.send(JSON.stringify(message));
+  });
+}
+
+function isUnknownTypeReply(err: unknown): boolean {
+  return err instanceof ApiClientError && UNKNOWN_TYPE_CODES.has(err.code?.toUpperCase() ?? "");
+}
+
+/**
+ * Exchanges protocol versions and capabilities; the server may have been redeployed, so every socket does it.
+ * Timeouts and dropped sockets fail the handshake so the reconnect loop tries again rather than assuming version 1.
+ */
+async function negotiateSocket(ws: WebSocket): Promise<void> {
+  let agreement = LEGACY_AGREEMENT;
+  try {
+    const message: WsRequest<ProtocolHello> = { type: "hello", requestId: createId("hello"), payload: CLIENT_HELLO };
+    agreement = negotiateProtocol(validateProtocolHello(await sendHandshake(ws, message, HELLO_TIMEOUT_MS)));
+  } catch (err) {
+    if (!isUnknownTypeReply(err)) throw err;
+  }
+  setProtocolAgreement(requireCapabilities(agreement));
+}
+
+/** Sends the launch token after the hello; the server binds the socket to the player until it closes. */
+async function authenticateSocket(ws: WebSocket): Promise<void> {
+  const payload = buildAuthPayload();
+  if (!payload) return;
+  markAuthenticating();
+  const requestId = createId("auth");
+  const message: WsRequest = { type: "session.auth", requestId, protocol: protocolVersion(), payload };
+  applyAuthResult(validateAuthResult(await sendHandshake(ws, message, AUTH_TIMEOUT_MS)));
+}
+
+function protocolVersion(): number | undefined {
+  return getProtocolAgreement()?.version;
+}
+
+async function connectWithRetry(): Promise<WebSocket> {
+  for (let attempt = 0; ; attempt += 1) {
+    const maxAttempts = hasConnected ? RECONNECT_POLICY.maxAttempts : INITIAL_CONNECT_ATTEMPTS;
+    setConnectionState(hasConnected || attempt > 0 ? "reconnecting" : "connecting", attempt);
+    try {
+      const ws = await openSocket();
+      ws.addEventListener("message", handleSocketMessage);
+      try {
+        await negotiateSocket(ws);
+        await authenticateSocket(ws);
+      } catch (handshakeError) {
+        ws.close();
+        throw handshakeError;
+      }
+      // Only an authenticated socket becomes current, so no queued request can overtake the handshake.
+      socket = ws;
+      // A socket that opened but failed its handshake was never usable; it keeps the HTTP fallback available.
+      hasConnected = true;
+      ws.addEventListener("close", () => handleSocketClosed(ws));
+      sendTopics("subscribe", Array.from(pushHandlers.keys()));
+      flushPending(ws);
+      startHeartbeat(ws);
+      setConnectionState("open");
+      return ws;
+    } catch (err) {
+      if (err instanceof ApiClientError && err.kind === "session_expired") {
+        markSessionExpired();
+        setConnectionState("offline", attempt);
+        rejectAllPending(err);
+        throw err;
+      }
+      if (err instanceof ApiClientError && err.kind === "incompatible") {
+        // Retrying cannot help; the page has to load a build that speaks the server's protocol.
+        reportIncompatibleProtocol(err);
+        setConnectionState("offline", attempt);
+        rejectAllPending(err);
+        throw err;
+      }
+      if (attempt + 1 >= maxAttempts) {
+        const error = new ApiClientError("disconnected", "WebSocket connection unavailable.", { cause: err });
+        setConnectionState("offline", attempt);
+        rejectAllPending(error);
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, computeBackoffDelay(attempt, RECONNECT_POLICY)));
+    }
+  }
+}
+
+async function ensureSocket(): Promise<WebSocket> {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    return socket;
+  }
+  if (connecting) return connecting;
+
+  watchNetwork();
+  connecting = connectWithRetry().finally(() => {
+    connecting = null;
+  });
+  return connecting;
+}
+
+export const wsTransport: GameTransport = {
+  kind: "ws",
+  async request(type, payload, options = {}) {
+    const { timeoutMs = DEFAULT_TIMEOUT_MS, retryOnReconnect = false, signal, onChunk } = options;
+    if (signal?.aborted) throw createCancelledError();
+    const ws = await ensureSocket();
+    if (signal?.aborted) throw createCancelledError();
+    const requestId = createId("req");
+    const message: WsRequest = { type, requestId, protocol: protocolVersion(), payload };
+
+    return new Promise<unknown>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(request.timeoutId);
+        pending.delete(requestId);
+        reject(createCancelledError());
+      };
+      const detach = () => signal?.removeEventListener("abort", onAbort);
+      const startTimeout = () =>
+        setTimeout(() => {
+          detach();
+          pending.delete(requestId);
+          reject(new ApiClientError("timeout", "WebSocket request timed out."));
+        }, timeoutMs);
+      const request: PendingRequest = {
+        message: JSON.stringify(message),
+        resolve: (value) => {
+          detach();
+          resolve(value);
+        },
+        reject: (reason) => {
+          detach();
+          reject(reason);
+        },
+        timeoutId: startTimeout(),
+        retryOnReconnect,
+        sent: false,
+        onChunk,
+        restartTimeout: () => {
+          clearTimeout(request.timeoutId);
+          request.timeoutId = startTimeout();
+        },
+      };
+      pending.set(requestId, request);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (socket === ws && ws.readyState === WebSocket.OPEN) {
+        request.sent = true;
+        ws.send(request.message);
+      }
+    });
+  },
+};
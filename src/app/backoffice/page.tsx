@@ -3,7 +3,9 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { adminLogin, fetchAdminGameConfig, saveAdminGameConfig } from "@/api/admin-client";
+import { envTenant, resolveTenant, TenantError } from "@/api/tenant";
 import type { EngineConfig, EngineLevelConfig, GameConfig } from "@/api/types";
+import { validateGameConfig, ValidationError } from "@/api/validators";
 import styles from "./page.module.css";
 
 type LevelCode = "nivel1" | "nivel2";
@@ -47,7 +49,11 @@ const DEFAULT_ENGINE: EngineConfig = {
         triggerCount: 3,
         prizeMultipliers: [4, 6, 8, 10, 12, 16, 20, 30, 40],
         maxRounds: 25,
-        endCode: "TERMINO_DE_BONUS"
+        endCode: "TERMINO_DE_BONUS",
+        levelTiers: [
+          [8, 12, 16, 20, 30, 40, 60],
+          [16, 24, 30, 40, 60, 80, 100]
+        ]
       }
     }
   }
@@ -96,6 +102,13 @@ function normalizeEngine(config: GameConfig): EngineConfig {
   };
 }
 
+function describeError(err: unknown, fallback: string) {
+  if (err instanceof ValidationError) {
+    return `Configuracion invalida en ${err.path}: ${err.reason}`;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
 function toNumberCsv(values: number[] | undefined) {
   return (values ?? []).join(",");
 }
@@ -111,6 +124,17 @@ function parseNumberCsv(input: string): number[] {
     .filter((value) => Number.isFinite(value) && value > 0);
 }
 
+// Bonus level tiers are edited as one CSV per level, separated by "|".
+function toTiersText(tiers: number[][] | undefined) {
+  return (tiers ?? []).map(toNumberCsv).join(" | ");
+}
+
+// An empty tier stays where it is so validation reports it; dropping it would shift level 3's prizes to level 2.
+function parseTiersText(input: string): number[][] {
+  if (!input.trim()) return [];
+  return input.split("|").map(parseNumberCsv);
+}
+
 function parseSymbolCsv(input: string): string[] {
   return input
     .split(",")
@@ -138,14 +162,7 @@ function updateLevelField(
 }
 
 export default function BackofficePage() {
-  const defaultCodes = useMemo(
-    () => ({
-      clientCode: process.env.NEXT_PUBLIC_CLIENT_CODE ?? "demo",
-      companyCode: process.env.NEXT_PUBLIC_COMPANY_CODE ?? "demo",
-      gameCode: process.env.NEXT_PUBLIC_GAME_CODE ?? "e-instant"
-    }),
-    []
-  );
+  const defaultCodes = useMemo(() => envTenant(), []);
 
   const [token, setToken] = useState("");
   const [email, setEmail] = useState("");
@@ -162,6 +179,10 @@ export default function BackofficePage() {
     nivel1: "",
     nivel2: ""
   });
+  const [bonusTiersText, setBonusTiersText] = useState<Record<LevelCode, string>>({
+    nivel1: "",
+    nivel2: ""
+  });
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState("");
@@ -173,6 +194,12 @@ export default function BackofficePage() {
     if (stored) {
       setToken(stored);
     }
+    // Resolved after mount: the server render only knows the build-time defaults.
+    try {
+      setCodes(resolveTenant());
+    } catch (err) {
+      if (!(err instanceof TenantError)) throw err;
+    }
     const envUrl = process.env.NEXT_PUBLIC_GRAFANA_URL?.trim();
     if (envUrl) {
       setGrafanaUrl(envUrl.replace(/\/+$/, ""));
@@ -200,6 +227,10 @@ export default function BackofficePage() {
       nivel1: toNumberCsv(engine.levels.nivel1.bonus.prizeMultipliers),
       nivel2: toNumberCsv(engine.levels.nivel2.bonus.prizeMultipliers)
     });
+    setBonusTiersText({
+      nivel1: toTiersText(engine.levels.nivel1.bonus.levelTiers),
+      nivel2: toTiersText(engine.levels.nivel2.bonus.levelTiers)
+    });
   }
 
   async function onLogin() {
@@ -228,11 +259,12 @@ export default function BackofficePage() {
       setCodes(resolvedCodes);
       const nextConfig = await fetchAdminGameConfig(token, resolvedCodes);
       nextConfig.engine = normalizeEngine(nextConfig);
+      validateGameConfig(nextConfig);
       setConfig(nextConfig);
       loadEditorStrings(nextConfig);
       setMessage(`Configuracion cargada (${resolvedCodes.clientCode}/${resolvedCodes.companyCode}/${resolvedCodes.gameCode})`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "No se pudo cargar configuracion");
+      setError(describeError(err, "No se pudo cargar configuracion"));
     } finally {
       setLoading(false);
     }
@@ -262,17 +294,21 @@ export default function BackofficePage() {
       (["nivel1", "nivel2"] as LevelCode[]).forEach((level) => {
         payload.engine!.levels[level].excludedSymbols = parseSymbolCsv(excludedText[level]);
         payload.engine!.levels[level].bonus.prizeMultipliers = parseNumberCsv(bonusPrizesText[level]);
+        const tiers = parseTiersText(bonusTiersText[level]);
+        payload.engine!.levels[level].bonus.levelTiers = tiers.length > 0 ? tiers : undefined;
         payload.engine!.levels[level].bonus.triggerSymbol =
           payload.engine!.levels[level].bonus.triggerSymbol.trim().toUpperCase();
       });
 
+      validateGameConfig(payload);
       const saved = await saveAdminGameConfig(token, { ...resolvedCodes, config: payload });
       saved.engine = normalizeEngine(saved);
+      validateGameConfig(saved);
       setConfig(saved);
       loadEditorStrings(saved);
       setMessage(`Configuracion guardada (${resolvedCodes.clientCode}/${resolvedCodes.companyCode}/${resolvedCodes.gameCode})`);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "No se pudo guardar configuracion");
+      setError(describeError(err, "No se pudo guardar configuracion"));
     } finally {
       setSaving(false);
     }
@@ -625,6 +661,14 @@ export default function BackofficePage() {
                         onChange={(e) => setBonusPrizesText((prev) => ({ ...prev, [level]: e.target.value }))}
                       />
                     </div>
+                    <div className={styles.field}>
+                      <label>Octopus level tiers: level 2 | level 3 multipliers (CSV)</label>
+                      <input
+                        value={bonusTiersText[level]}
+                        placeholder="8,12,16 | 16,24,30"
+                        onChange={(e) => setBonusTiersText((prev) => ({ ...prev, [level]: e.target.value }))}
+                      />
+                    </div>
 
                     <p className={styles.subtle}>Pesos por simbolo</p>
                     <table className={styles.weights}>
@@ -1,42 +1,112 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useEffectEvent, useRef, useState } from "react";
 import Link from "next/link";
-import { loadGameConfig } from "@/api/config-loader";
-import { playPack, playTicket } from "@/api/client";
-import type { GameConfig, GameMode, PackLevel, PackOutcome, PackPlay, PackSize, PlayOutcome } from "@/api/types";
+import { loadGameConfig, revalidateGameConfig } from "@/api/config-loader";
+import {
+  createIdempotencyKey,
+  fetchHistory,
+  getSessionId,
+  playPack,
+  playTicket,
+  startPlayerSession,
+  subscribeConnectionState,
+} from "@/api/client";
+import { ApiClientError, isCancelledError, isRetryableError, toApiClientError } from "@/api/errors";
+import {
+  findPendingPlay,
+  finishPendingPlay,
+  savePendingPlay,
+  updatePendingPlay,
+  type PendingPlay,
+} from "@/api/pending-play";
+import { isProtocolRefused, whenProtocolAgreed } from "@/api/protocol";
+import { bridgePushToGameBus } from "@/api/push-bridge";
+import {
+  applyPurchase,
+  canAfford,
+  creditWin,
+  getWallet,
+  refreshWallet,
+  startWallet,
+  subscribeWallet,
+  type WalletState,
+} from "@/api/wallet";
+import type {
+  ConnectionState,
+  GameConfig,
+  GameMode,
+  HistoryEntry,
+  HistoryScope,
+  MaintenanceNotice,
+  PackLevel,
+  PackOutcome,
+  PackPlay,
+  PackSize,
+  PlayOutcome,
+} from "@/api/types";
+import {
+  autoplayRoundOptions,
+  canStartAutoplay,
+  recordAutoplayTicket,
+  startAutoplay,
+  type AutoplayRun,
+  type AutoplaySettings,
+  type AutoplayStopReason,
+} from "@/game/autoplay";
+import {
+  advanceBonusReplay,
+  bonusFinished,
+  nextBonusRound,
+  revealBonusPick,
+  startBonusSession,
+  type BonusSession,
+} from "@/game/bonus-session";
+import { cascadeWin } from "@/game/cascade";
 import { gameBus, uiBus } from "@/game/events";
 import { PhaserBoard } from "@/game/phaser-board";
+import { PhaserBonus } from "@/game/phaser-bonus";
+import { asReplay, originalPlayId } from "@/game/replay";
+import {
+  checkPurchase,
+  loadSessionStats,
+  nextRealityCheckAt,
+  readCoolOffUntil,
+  recordPurchase,
+  saveSessionStats,
+  startCoolOff,
+  type LimitBlock,
+  type PlaySessionStats,
+} from "@/game/responsible-gaming";
+import { onResumeApplied } from "@/game/resume";
 import { createStateMachine, type GameState } from "@/game/state-machine";
+import { describeApiError, type ErrorNotice } from "@/lib/error-messages";
 import { formatMoney } from "@/lib/format-money";
 import { startTelemetry } from "@/lib/telemetry";
 import styles from "./page.module.css";
 
-type UiStage = "splash" | "menu" | "bet" | "play";
-type BonusMode = Exclude<GameMode, "pack">;
-type BonusCellType = "prize" | "end";
+type UiStage = "splash" | "menu" | "bet" | "play" | "history";
+type RetryableAction = "config" | "single" | "pack";
+type HistoryFilters = {
+  scope: HistoryScope;
+  mode: GameMode | "all";
+  from: string;
+  to: string;
+};
 
-type BonusCell = {
-  id: string;
-  type: BonusCellType;
-  multiplier: number;
-  amount: number;
-  label: string;
+type HistoryView = {
+  entries: HistoryEntry[];
+  nextCursor?: string;
+  loading: boolean;
+  error: ErrorNotice | null;
 };
 
-type BonusSession = {
-  playId: string;
-  mode: BonusMode;
-  triggerCount: number;
-  round: number;
-  maxRounds: number;
-  prizeMultipliers: number[];
-  endCode: string;
-  cells: BonusCell[];
-  revealedIndex?: number;
-  revealedCell?: BonusCell;
-  totalWin: number;
-  history: BonusCell[];
+type AutoplayForm = {
+  rounds: number;
+  winAbove: string;
+  balanceBelow: string;
+  lossAbove: string;
+  bonus: boolean;
 };
 
 const stateLabels: Record<GameState, string> = {
@@ -51,62 +121,39 @@ const stateLabels: Record<GameState, string> = {
   SUMMARY: "Resumen",
 };
 
-function shuffleCells<T>(items: T[]): T[] {
-  const clone = [...items];
-  for (let i = clone.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    const tmp = clone[i];
-    clone[i] = clone[j];
-    clone[j] = tmp;
-  }
-  return clone;
-}
+const HISTORY_PAGE_SIZE = 10;
+// Pause between autoplay tickets so the end of each ticket stays readable.
+const AUTOPLAY_DELAY_MS = 800;
+// Time each replayed bonus pick stays on screen; halved in turbo.
+const REPLAY_BONUS_DELAY_MS = 1200;
+
+const autoplayStopLabels: Record<AutoplayStopReason, string> = {
+  rounds: "Autoplay terminado: se jugaron todos los tickets.",
+  win: "Autoplay detenido: un ticket supero el premio indicado.",
+  bonus: "Autoplay detenido: se activo el bonus.",
+  loss: "Autoplay detenido: la perdida supero el limite indicado.",
+  balance: "Autoplay detenido: el saldo bajo del minimo indicado.",
+  player: "Autoplay detenido.",
+  blocked: "Autoplay detenido: no se puede comprar el siguiente ticket.",
+};
 
-function pickDistinctMultipliers(pool: number[]): [number, number] {
-  const source = pool.length > 1 ? pool : [1, 2];
-  const first = source[Math.floor(Math.random() * source.length)] ?? source[0];
-  let second = source[Math.floor(Math.random() * source.length)] ?? source[0];
-  let guard = 0;
-  while (second === first && guard < 10) {
-    second = source[Math.floor(Math.random() * source.length)] ?? source[0];
-    guard += 1;
-  }
-  if (second === first) {
-    second = first + 1;
-  }
-  return [first, second];
+const connectionLabels: Record<ConnectionState, string> = {
+  connecting: "Conectando",
+  open: "En linea",
+  reconnecting: "Reconectando...",
+  offline: "Sin conexion",
+};
+
+function parseAmount(value: string): number | undefined {
+  const amount = Number(value);
+  return value.trim() === "" || !Number.isFinite(amount) || amount < 0 ? undefined : amount;
 }
 
-function buildBonusCells(
-  playId: string,
-  round: number,
-  bet: number,
-  prizeMultipliers: number[],
-  endCode: string,
-): BonusCell[] {
-  const [m1, m2] = pickDistinctMultipliers(prizeMultipliers);
-  const prizeA: BonusCell = {
-    id: `${playId}-bonus-${round}-prize-a`,
-    type: "prize",
-    multiplier: m1,
-    amount: Math.round(bet * m1),
-    label: `Premio x${m1}`,
-  };
-  const prizeB: BonusCell = {
-    id: `${playId}-bonus-${round}-prize-b`,
-    type: "prize",
-    multiplier: m2,
-    amount: Math.round(bet * m2),
-    label: `Premio x${m2}`,
-  };
-  const endCell: BonusCell = {
-    id: `${playId}-bonus-${round}-end`,
-    type: "end",
-    multiplier: 0,
-    amount: 0,
-    label: endCode,
-  };
-  return shuffleCells([prizeA, prizeB, endCell]);
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.floor(minutes % 60);
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
 }
 
 function asPlayOutcome(play: PackPlay): PlayOutcome {
@@ -121,14 +168,15 @@ function asPlayOutcome(play: PackPlay): PlayOutcome {
 }
 
 export default function Home() {
-  const sessionId = useMemo(
-    () => (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `session-${Date.now()}`),
-    [],
-  );
   const machineRef = useRef(createStateMachine("LOADING"));
   const splashDelayRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const endTicketDelayRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const bonusIntroDelayRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Key of a purchase whose result never arrived; pressing Play again for the same ticket reuses it.
+  const unresolvedPurchaseRef = useRef<{ signature: string; key: string } | null>(null);
+  const lastActionRef = useRef<RetryableAction>("config");
+  const inFlightRef = useRef<{ action: RetryableAction; controller: AbortController } | null>(null);
+  const historyRequestRef = useRef<AbortController | null>(null);
+  const historyReturnRef = useRef<UiStage>("menu");
 
   const [config, setConfig] = useState<GameConfig | null>(null);
   const [mode, setMode] = useState<GameMode>("nivel1");
@@ -140,15 +188,45 @@ export default function Home() {
   const [play, setPlay] = useState<PlayOutcome | undefined>();
   const [packOutcome, setPackOutcome] = useState<PackOutcome | undefined>();
   const [packRevealed, setPackRevealed] = useState(0);
+  // Ticket count announced by a streamed pack that is still arriving; null once the pack is complete.
+  const [packExpected, setPackExpected] = useState<number | null>(null);
   const [displayedWin, setDisplayedWin] = useState(0);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorNotice | null>(null);
   const [uiStage, setUiStage] = useState<UiStage>("splash");
   const [replayModal, setReplayModal] = useState<PlayOutcome | null>(null);
+  const [replayBonus, setReplayBonus] = useState<BonusSession | null>(null);
   const [rulesOpen, setRulesOpen] = useState(false);
   const [rulesIndex, setRulesIndex] = useState(0);
   const [infoOpen, setInfoOpen] = useState(false);
   const [bonusSession, setBonusSession] = useState<BonusSession | null>(null);
-  const [bonusIntroActive, setBonusIntroActive] = useState(false);
+  // False while the bonus scene animates the shot of a revealed round; the result waits for it.
+  const [bonusShotLanded, setBonusShotLanded] = useState(true);
+  const [connectionState, setConnectionState] = useState<ConnectionState>("connecting");
+  const [maintenance, setMaintenance] = useState<MaintenanceNotice | null>(null);
+  const [protocolMismatch, setProtocolMismatch] = useState(false);
+  const [wallet, setWallet] = useState<WalletState>(getWallet);
+  const [playSession, setPlaySession] = useState<PlaySessionStats>(() => loadSessionStats());
+  const [coolOffUntil, setCoolOffUntil] = useState<number | null>(() => readCoolOffUntil());
+  // When the reality check opened; null while it is closed.
+  const [realityCheckAt, setRealityCheckAt] = useState<number | null>(null);
+  const [autoplay, setAutoplay] = useState<AutoplayRun | null>(null);
+  const [autoplayForm, setAutoplayForm] = useState<AutoplayForm>({
+    rounds: 0,
+    winAbove: "",
+    balanceBelow: "",
+    lossAbove: "",
+    bonus: false,
+  });
+  const [autoplayNotice, setAutoplayNotice] = useState<string | null>(null);
+  const [turbo, setTurbo] = useState(false);
+  const [pendingPlay, setPendingPlay] = useState<PendingPlay<BonusSession> | null>(null);
+  // Ticket picked up after an interruption: where the board restarts and the bonus round to restore.
+  const [resume, setResume] = useState<{ playId: string; step: number; bonus?: BonusSession } | null>(null);
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>({ scope: "session", mode: "all", from: "", to: "" });
+  const [history, setHistory] = useState<HistoryView>({ entries: [], loading: false, error: null });
+  const [historyPackOpen, setHistoryPackOpen] = useState<string | null>(null);
+  // Newer config found by a background revalidation, held until no ticket is in progress.
+  const [pendingConfig, setPendingConfig] = useState<GameConfig | null>(null);
 
   const transition = useCallback((next: GameState) => {
     machineRef.current.transition(next);
@@ -200,87 +278,229 @@ export default function Home() {
     [clearEndTicketDelay, transition],
   );
 
-  const clearBonusIntroDelay = useCallback(() => {
-    if (bonusIntroDelayRef.current) {
-      clearTimeout(bonusIntroDelayRef.current);
-      bonusIntroDelayRef.current = null;
+  const purchaseKeyFor = (signature: string) => {
+    if (unresolvedPurchaseRef.current?.signature !== signature) {
+      unresolvedPurchaseRef.current = { signature, key: createIdempotencyKey() };
+    }
+    return unresolvedPurchaseRef.current.key;
+  };
+
+  const settlePurchase = (err?: unknown) => {
+    // A cancelled purchase may still have been charged, so its key is kept like after a timeout.
+    if (!err || !(isRetryableError(err) || isCancelledError(err))) {
+      unresolvedPurchaseRef.current = null;
     }
+  };
+
+  const beginRequest = useCallback((action: RetryableAction) => {
+    inFlightRef.current?.controller.abort();
+    const controller = new AbortController();
+    inFlightRef.current = { action, controller };
+    return controller.signal;
+  }, []);
+
+  const endRequest = useCallback((signal: AbortSignal) => {
+    if (inFlightRef.current?.controller.signal === signal) {
+      inFlightRef.current = null;
+    }
+  }, []);
+
+  const cancelPlayRequest = useCallback(() => {
+    if (!inFlightRef.current || inFlightRef.current.action === "config") return;
+    inFlightRef.current.controller.abort();
+    inFlightRef.current = null;
+  }, []);
+
+  const applyConfig = useCallback((cfg: GameConfig, keepSelection = false) => {
+    const firstEnabled = cfg.modes.find((m) => m.enabled)?.code ?? "nivel1";
+    const defaultMode = (cfg.availableModes?.[0] as GameMode | undefined) ?? firstEnabled;
+    const defaultBet = cfg.betValues?.[0] ?? cfg.betOptions.minBet;
+    const defaultPackLevel = cfg.packLevels?.[0] ?? (firstEnabled === "nivel2" ? "nivel2" : "nivel1");
+    setConfig(cfg);
+    if (keepSelection) {
+      const availableModes = cfg.availableModes ?? cfg.modes.filter((m) => m.enabled).map((m) => m.code);
+      const isValidBet = (value: number) =>
+        cfg.betValues?.length
+          ? cfg.betValues.includes(value)
+          : value >= cfg.betOptions.minBet && value <= cfg.betOptions.maxBet;
+      setBet((prev) => (isValidBet(prev) ? prev : defaultBet));
+      setMode((prev) => (availableModes.includes(prev) ? prev : defaultMode));
+      setPackLevel((prev) => (!cfg.packLevels || cfg.packLevels.includes(prev) ? prev : defaultPackLevel));
+      setPackSize((prev) => (cfg.packSizes.includes(prev) ? prev : cfg.packSizes[0]));
+    } else {
+      setBet(defaultBet);
+      setMode(defaultMode);
+      setPackLevel(defaultPackLevel);
+      setPackSize(cfg.packSizes[0]);
+    }
+    gameBus.emit("game:config-loaded", cfg);
   }, []);
 
   const refreshConfig = useCallback(async () => {
+    lastActionRef.current = "config";
     clearSplashDelay();
     setError(null);
     setLoadingText("Cargando configuracion remota...");
     setUiStage("splash");
     const splashStart = Date.now();
     transition("LOADING");
+    const signal = beginRequest("config");
     try {
-      const cfg = await loadGameConfig();
-      setConfig(cfg);
-      setBet(cfg.betValues?.[0] ?? cfg.betOptions.minBet);
-      const firstEnabled = cfg.modes.find((m) => m.enabled)?.code ?? "nivel1";
-      const defaultMode = (cfg.availableModes?.[0] as GameMode | undefined) ?? firstEnabled;
-      setMode(defaultMode);
-      setPackLevel(cfg.packLevels?.[0] ?? (firstEnabled === "nivel2" ? "nivel2" : "nivel1"));
-      setPackSize(cfg.packSizes[0]);
-      gameBus.emit("game:config-loaded", cfg);
+      const cfg = await loadGameConfig({ signal, onRevalidated: setPendingConfig });
+      if (signal.aborted) return;
+      setPendingConfig(null);
+      applyConfig(cfg);
       transition("MENU");
       const delay = Math.max(0, 2000 - (Date.now() - splashStart));
       splashDelayRef.current = setTimeout(() => setUiStage("menu"), delay);
     } catch (err) {
-      setError("No pudimos cargar la configuracion del cliente.");
+      if (signal.aborted) return;
+      setError(describeApiError(toApiClientError(err), "No pudimos cargar la configuracion del cliente."));
       gameBus.emit("game:error", { message: String(err) });
       transition("MENU");
       const delay = Math.max(0, 2000 - (Date.now() - splashStart));
       splashDelayRef.current = setTimeout(() => setUiStage("menu"), delay);
+    } finally {
+      endRequest(signal);
     }
-  }, [clearSplashDelay, transition]);
+  }, [applyConfig, beginRequest, clearSplashDelay, endRequest, transition]);
 
   useEffect(() => {
     const stopTelemetry = startTelemetry();
+    const stopSession = startPlayerSession();
+    const stopPush = bridgePushToGameBus();
+    const stopWallet = startWallet();
+    // play.pending may only be asked of a server that offered "resume" in the handshake.
+    const stopResumeLookup = whenProtocolAgreed(() => {
+      findPendingPlay<BonusSession>().then(setPendingPlay);
+    });
     refreshConfig();
     return () => {
+      stopResumeLookup();
       stopTelemetry();
+      stopSession();
+      stopPush();
+      stopWallet();
       clearSplashDelay();
       clearEndTicketDelay();
-      clearBonusIntroDelay();
     };
-  }, [clearBonusIntroDelay, clearEndTicketDelay, clearSplashDelay, refreshConfig]);
+  }, [clearEndTicketDelay, clearSplashDelay, refreshConfig]);
+
+  const tenantKey = config ? `${config.clientCode}/${config.companyCode}/${config.gameCode}` : null;
+  useEffect(() => {
+    if (!tenantKey) return;
+    return gameBus.on("game:config:changed", (notice) => {
+      if (`${notice.clientCode}/${notice.companyCode}/${notice.gameCode}` !== tenantKey) return;
+      revalidateGameConfig()
+        .then((fresh) => {
+          if (fresh) setPendingConfig(fresh);
+        })
+        .catch(() => {});
+    });
+  }, [tenantKey]);
+
+  useEffect(() => subscribeConnectionState(setConnectionState), []);
+
+  useEffect(() => subscribeWallet(setWallet), []);
+
+  const loadHistory = useCallback(async (filters: HistoryFilters, cursor?: string) => {
+    historyRequestRef.current?.abort();
+    const controller = new AbortController();
+    historyRequestRef.current = controller;
+    setHistory((prev) => ({ ...prev, entries: cursor ? prev.entries : [], loading: true, error: null }));
+    try {
+      const page = await fetchHistory(
+        {
+          scope: filters.scope,
+          mode: filters.mode === "all" ? undefined : filters.mode,
+          from: filters.from || undefined,
+          to: filters.to || undefined,
+          cursor,
+          limit: HISTORY_PAGE_SIZE,
+        },
+        { signal: controller.signal },
+      );
+      if (controller.signal.aborted) return;
+      setHistory((prev) => ({
+        entries: cursor ? [...prev.entries, ...page.entries] : page.entries,
+        nextCursor: page.nextCursor,
+        loading: false,
+        error: null,
+      }));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setHistory((prev) => ({
+        ...prev,
+        loading: false,
+        error: describeApiError(toApiClientError(err), "No pudimos cargar el historial."),
+      }));
+    } finally {
+      if (historyRequestRef.current === controller) historyRequestRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (uiStage !== "history") return;
+    setHistoryPackOpen(null);
+    loadHistory(historyFilters);
+    return () => {
+      historyRequestRef.current?.abort();
+    };
+  }, [historyFilters, loadHistory, uiStage]);
+
+  useEffect(() => {
+    if (state !== "END_TICKET") return;
+    creditWin();
+    if (play) finishPendingPlay(play.playId);
+  }, [play, state]);
 
   useEffect(() => {
+    const onJackpot = gameBus.on("game:jackpot:update", (jackpots) => {
+      setConfig((prev) => (prev ? { ...prev, jackpots: { mayor: jackpots.mayor, menor: jackpots.menor } } : prev));
+    });
+    const onMaintenance = gameBus.on("game:maintenance", (notice) => {
+      setMaintenance(notice.active ? notice : null);
+    });
+    const onSession = gameBus.on("game:session:state", ({ status }) => {
+      if (status !== "expired") return;
+      setError(describeApiError(new ApiClientError("session_expired", "Player session expired.")));
+    });
+    if (isProtocolRefused()) setProtocolMismatch(true);
+    const onIncompatible = gameBus.on("game:protocol:incompatible", () => setProtocolMismatch(true));
+    return () => {
+      onJackpot();
+      onMaintenance();
+      onSession();
+      onIncompatible();
+    };
+  }, []);
+
+  useEffect(() => {
+    cancelPlayRequest();
+    // An abandoned ticket still paid out; show its win instead of holding it back.
+    creditWin();
     setPackOutcome(undefined);
+    setPackExpected(null);
     setPackRevealed(0);
     setBonusSession(null);
-    setBonusIntroActive(false);
+    setBonusShotLanded(true);
+    setAutoplay(null);
     clearEndTicketDelay();
-    clearBonusIntroDelay();
-  }, [bet, clearBonusIntroDelay, clearEndTicketDelay, mode, packSize, packLevel]);
+  }, [bet, cancelPlayRequest, clearEndTicketDelay, mode, packSize, packLevel]);
+
+  useEffect(() => {
+    cancelPlayRequest();
+    setAutoplay(null);
+  }, [cancelPlayRequest, uiStage]);
 
   useEffect(() => {
     if (play) {
       setDisplayedWin(0);
       setBonusSession(null);
-      setBonusIntroActive(false);
+      setBonusShotLanded(true);
       clearEndTicketDelay();
-      clearBonusIntroDelay();
-    }
-  }, [clearBonusIntroDelay, clearEndTicketDelay, play?.playId]);
-
-  useEffect(() => {
-    clearBonusIntroDelay();
-    if (!bonusSession || bonusSession.revealedCell || bonusSession.mode !== "nivel2") {
-      setBonusIntroActive(false);
-      return;
     }
-    setBonusIntroActive(true);
-    bonusIntroDelayRef.current = setTimeout(() => {
-      setBonusIntroActive(false);
-      bonusIntroDelayRef.current = null;
-    }, 1300);
-    return () => {
-      clearBonusIntroDelay();
-    };
-  }, [bonusSession?.playId, bonusSession?.revealedCell, bonusSession?.round, clearBonusIntroDelay]);
+  }, [clearEndTicketDelay, play?.playId]);
 
   useEffect(() => {
     if (packOutcome) {
@@ -335,51 +555,200 @@ export default function Home() {
     const unsubscribe = gameBus.on("game:bonus:triggered", ({ playId, bonusData }) => {
       if (playId !== play.playId) return;
       if (bonusSession) return;
-
-      const bonusMode = (bonusData?.mode ?? mode) as BonusMode;
-      const prizeMultipliers = bonusData?.prizeMultipliers?.length
-        ? bonusData.prizeMultipliers
-        : bonusMode === "nivel1"
-          ? [2, 3, 5, 8]
-          : [4, 6, 8, 10, 12, 16, 20, 30, 40];
-      const endCode = bonusData?.endCode ?? "TERMINO_DE_BONUS";
-      const maxRounds = Math.max(1, bonusData?.maxRounds ?? 25);
-      const cells = buildBonusCells(playId, 1, bet, prizeMultipliers, endCode);
-
-      setBonusSession({
-        playId,
-        mode: bonusMode,
-        triggerCount: bonusData?.triggerCount ?? 1,
-        round: 1,
-        maxRounds,
-        prizeMultipliers,
-        endCode,
-        cells,
-        totalWin: 0,
-        history: [],
-      });
+      const session = bonusData ? startBonusSession(playId, bonusData) : null;
+      if (!session) {
+        scheduleEndTicket(250);
+        return;
+      }
+      setBonusSession(session);
     });
     return () => {
       unsubscribe();
     };
-  }, [bet, bonusSession, mode, play?.playId]);
+  }, [bonusSession, mode, play?.playId, scheduleEndTicket]);
+
+  const pickBonusCell = useEffectEvent((playId: string, round: number, cellIndex: number) => {
+    if (bonusSession?.playId !== playId || bonusSession.round !== round) return;
+    const revealed = revealBonusPick(bonusSession, cellIndex);
+    if (revealed === bonusSession) return;
+    setBonusShotLanded(false);
+    setBonusSession(revealed);
+  });
+
+  // The prize is paid once the scene has shown the hit, not when the result arrives.
+  const landBonusShot = useEffectEvent((playId: string, round: number) => {
+    if (bonusSession?.playId !== playId || bonusSession.round !== round) return;
+    setBonusShotLanded(true);
+    const cell = bonusSession.revealedCell;
+    if (cell?.type === "prize" && cell.amount > 0) {
+      gameBus.emit("game:win:increment", { playId, amount: cell.amount });
+    }
+  });
+
+  useEffect(() => {
+    const offPick = gameBus.on("game:bonus:pick", ({ playId, round, cellIndex }) =>
+      pickBonusCell(playId, round, cellIndex),
+    );
+    const offShot = gameBus.on("game:bonus:shot", ({ playId, round }) => landBonusShot(playId, round));
+    return () => {
+      offPick();
+      offShot();
+    };
+  }, []);
+
+  // The replay board emits under its replay-scoped id; its bonus plays back read-only inside the modal.
+  useEffect(() => {
+    setReplayBonus(null);
+    if (!replayModal) return;
+    return gameBus.on("game:bonus:triggered", ({ playId, bonusData }) => {
+      if (playId === replayModal.playId && bonusData) setReplayBonus(startBonusSession(playId, bonusData));
+    });
+  }, [replayModal]);
+
+  useEffect(() => {
+    if (!replayBonus || bonusFinished(replayBonus)) return;
+    const timer = setTimeout(
+      () => setReplayBonus((prev) => prev && advanceBonusReplay(prev)),
+      turbo ? REPLAY_BONUS_DELAY_MS / 2 : REPLAY_BONUS_DELAY_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [replayBonus, turbo]);
+
+  useEffect(() => {
+    if (!play || mode === "pack") return;
+    return gameBus.on("game:cascade:step", ({ playId, stepIndex }) => {
+      if (playId === play.playId) updatePendingPlay(playId, { completedSteps: stepIndex - 1 });
+    });
+  }, [mode, play]);
+
+  useEffect(() => {
+    if (bonusSession) updatePendingPlay(bonusSession.playId, { bonus: bonusSession });
+  }, [bonusSession]);
+
+  // Runs after the effects that reset the bonus for a new ticket, so the restored round survives them.
+  useEffect(() => {
+    if (!resume?.bonus || resume.playId !== play?.playId) return;
+    setBonusSession(resume.bonus);
+    if (resume.bonus.totalWin > 0) {
+      gameBus.emit("game:win:increment", { playId: resume.playId, amount: resume.bonus.totalWin });
+    }
+  }, [play?.playId, resume]);
+
+  // Re-renders of the board after it played on from the resume point must not start from it again.
+  useEffect(() => {
+    if (!resume) return;
+    return onResumeApplied(resume.playId, () => setResume(null));
+  }, [resume]);
+
+  const resumePendingPlay = () => {
+    if (!pendingPlay) return;
+    const { play: outcome, completedSteps, bonus } = pendingPlay;
+    setPendingPlay(null);
+    setMode(outcome.mode);
+    setBet(outcome.bet);
+    setResume({ playId: outcome.playId, step: completedSteps, bonus });
+    setPlay(outcome);
+    setUiStage("play");
+    transition("REVEAL");
+  };
+
+  const discardPendingPlay = () => {
+    if (pendingPlay) finishPendingPlay(pendingPlay.play.playId);
+    setPendingPlay(null);
+  };
+
+  const responsibleGaming = config?.responsibleGaming;
+  useEffect(() => {
+    saveSessionStats(playSession);
+  }, [playSession]);
+
+  useEffect(() => {
+    if (realityCheckAt !== null) return;
+    const dueAt = nextRealityCheckAt(responsibleGaming, playSession.startedAt);
+    if (dueAt === null) return;
+    const timer = setTimeout(() => setRealityCheckAt(Date.now()), dueAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [playSession.startedAt, realityCheckAt, responsibleGaming]);
+
+  useEffect(() => {
+    if (coolOffUntil === null) return;
+    const timer = setTimeout(() => setCoolOffUntil(readCoolOffUntil()), Math.max(0, coolOffUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [coolOffUntil]);
+
+  const limitBlockFor = (cost: number) => checkPurchase(responsibleGaming, playSession, cost, coolOffUntil);
+
+  const takeBreak = (minutes: number) => {
+    setCoolOffUntil(startCoolOff(minutes));
+    setRealityCheckAt(null);
+  };
+
+  const stopAutoplay = (reason: AutoplayStopReason) => {
+    setAutoplay(null);
+    setAutoplayNotice(autoplayStopLabels[reason]);
+  };
+
+  const finishAutoplayTicket = useEffectEvent(() => {
+    if (!autoplay || !play) return;
+    const ticket = { bet: play.bet, totalWin: play.totalWin, bonus: play.cascades.some((step) => step.bonus) };
+    const { run, stop } = recordAutoplayTicket(autoplay, ticket, getWallet().balance);
+    if (stop) stopAutoplay(stop);
+    else setAutoplay(run);
+  });
+
+  const playNextAutoplayTicket = useEffectEvent(() => {
+    if (!canAfford(bet) || limitBlockFor(bet)) {
+      stopAutoplay("blocked");
+      return;
+    }
+    handlePlaySingle();
+  });
+
+  useEffect(() => {
+    if (state === "END_TICKET") finishAutoplayTicket();
+  }, [state]);
+
+  // A reality check holds the next ticket until the player dismisses it.
+  useEffect(() => {
+    if (!autoplay || state !== "END_TICKET" || realityCheckAt !== null) return;
+    const timer = setTimeout(() => playNextAutoplayTicket(), AUTOPLAY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autoplay, realityCheckAt, state]);
+
+  const reportPurchaseError = (err: unknown, fallbackMessage: string) => {
+    const apiError = toApiClientError(err);
+    if (apiError.kind === "insufficient_funds") refreshWallet().catch(() => {});
+    setError(describeApiError(apiError, fallbackMessage));
+  };
 
   async function handlePlaySingle() {
-    if (!config) return;
+    if (!config || !canAfford(bet) || limitBlockFor(bet)) return;
+    lastActionRef.current = "single";
     clearEndTicketDelay();
     setError(null);
     setLoadingText("Solicitando ticket....");
     transition("LOADING");
     gameBus.emit("game:play:started", { mode, bet });
     uiBus.emit("ui:play", { mode, bet });
+    const idempotencyKey = purchaseKeyFor(`single:${mode}:${bet}`);
+    const signal = beginRequest("single");
     try {
-      const outcome = await playTicket({
-        clientCode: config.clientCode,
-        companyCode: config.companyCode,
-        sessionId,
-        mode,
-        bet,
-      });
+      const outcome = await playTicket(
+        {
+          clientCode: config.clientCode,
+          companyCode: config.companyCode,
+          sessionId: getSessionId(),
+          mode,
+          bet,
+          idempotencyKey,
+        },
+        { signal },
+      );
+      settlePurchase();
+      applyPurchase(bet, outcome);
+      setPlaySession((prev) => recordPurchase(prev, bet, outcome.totalWin));
+      savePendingPlay({ play: outcome, completedSteps: 0 });
+      if (signal.aborted) return;
       setPlay(outcome);
       setPackOutcome(undefined);
       setPackRevealed(0);
@@ -387,9 +756,14 @@ export default function Home() {
       transition("REVEAL");
       gameBus.emit("game:play:completed", outcome);
     } catch (err) {
-      setError("No pudimos obtener el ticket.");
+      settlePurchase(err);
+      if (signal.aborted) return;
+      setAutoplay(null);
+      reportPurchaseError(err, "No pudimos obtener el ticket.");
       transition("MENU");
       gameBus.emit("game:error", { message: String(err) });
+    } finally {
+      endRequest(signal);
     }
   }
 
@@ -403,32 +777,112 @@ export default function Home() {
     if (packOutcome && packRevealed >= packOutcome.plays.length) {
       return;
     }
+    if (!canAfford(bet * packSize) || limitBlockFor(bet * packSize)) return;
+    lastActionRef.current = "pack";
     setError(null);
     setLoadingText("Creando pack determinista...");
     transition("LOADING");
     gameBus.emit("game:pack:started", { mode, bet, packSize, packLevel });
     uiBus.emit("ui:play", { mode, bet, packSize, packLevel });
+    const idempotencyKey = purchaseKeyFor(`pack:${packLevel}:${packSize}:${bet}`);
+    const signal = beginRequest("pack");
     try {
-      const outcome = await playPack({
-        clientCode: config.clientCode,
-        companyCode: config.companyCode,
-        sessionId,
-        mode,
-        packLevel,
-        bet,
-        packSize,
-      });
+      const outcome = await playPack(
+        {
+          clientCode: config.clientCode,
+          companyCode: config.companyCode,
+          sessionId: getSessionId(),
+          mode,
+          packLevel,
+          bet,
+          packSize,
+          idempotencyKey,
+        },
+        {
+          signal,
+          onHeader: (header) => {
+            if (signal.aborted) return;
+            setPackExpected(header.packSize);
+            setPackOutcome({
+              packId: header.packId,
+              packLevel: header.packLevel,
+              plays: [],
+              totalBet: header.totalBet,
+              totalWin: 0,
+            });
+            setPlay(undefined);
+            setPackRevealed(0);
+            transition("PACK_LIST");
+          },
+          onPlay: (ticket) => {
+            if (signal.aborted) return;
+            setPackOutcome((prev) => {
+              if (!prev) return prev;
+              const plays = [...prev.plays.filter((entry) => entry.ticketIndex !== ticket.ticketIndex), ticket].sort(
+                (a, b) => a.ticketIndex - b.ticketIndex,
+              );
+              return { ...prev, plays, totalWin: plays.reduce((acc, entry) => acc + entry.totalWin, 0) };
+            });
+            setPackRevealed((prev) => Math.max(prev, 1));
+          },
+        },
+      );
+      settlePurchase();
+      applyPurchase(outcome.totalBet, outcome);
+      setPlaySession((prev) => recordPurchase(prev, outcome.totalBet, outcome.totalWin));
+      if (signal.aborted) return;
+      setPackExpected(null);
       setPackOutcome(outcome);
       setPlay(undefined);
-      setPackRevealed(1);
+      setPackRevealed((prev) => Math.max(prev, 1));
       transition("PACK_LIST");
     } catch (err) {
-      setError("No pudimos generar el pack. Intenta nuevamente.");
+      settlePurchase(err);
+      if (signal.aborted) return;
+      setPackExpected(null);
+      setPackOutcome(undefined);
+      setPackRevealed(0);
+      reportPurchaseError(err, "No pudimos generar el pack. Intenta nuevamente.");
       transition("MENU");
       gameBus.emit("game:error", { message: String(err) });
+    } finally {
+      endRequest(signal);
     }
   }
 
+  const onErrorAction = () => {
+    if (!error) return;
+    if (error.action === "reload") {
+      window.location.reload();
+      return;
+    }
+    if (error.action === "change-bet") {
+      setError(null);
+      setUiStage("bet");
+      return;
+    }
+    if (error.action !== "retry") return;
+    if (lastActionRef.current === "single") {
+      handlePlaySingle();
+    } else if (lastActionRef.current === "pack") {
+      handlePlayPack();
+    } else {
+      refreshConfig();
+    }
+  };
+
+  const renderError = () =>
+    error ? (
+      <div className={styles.errorRow}>
+        <p className={styles.error}>{error.message}</p>
+        {error.actionLabel ? (
+          <button className={styles.ghost} onClick={onErrorAction} type="button">
+            {error.actionLabel}
+          </button>
+        ) : null}
+      </div>
+    ) : null;
+
   const boardPlay: PlayOutcome | undefined = mode === "pack" ? undefined : play;
   type BoardVisualConfig = {
     previewSize?: { rows: number; cols: number };
@@ -457,11 +911,13 @@ export default function Home() {
   const boardVisualConfig = getBoardVisualConfig(mode);
   const replayVisualConfig = getBoardVisualConfig(replayModal?.mode);
 
-  const packTotal = packOutcome?.plays.length ?? packSize;
+  const packTotal = packExpected ?? packOutcome?.plays.length ?? packSize;
+  const packReceived = packOutcome?.plays.length ?? 0;
   const revealedPlays = packOutcome ? packOutcome.plays.slice(0, packRevealed) : [];
+  const packOpened = revealedPlays.length;
   const revealedTotalWin = revealedPlays.reduce((acc, ticket) => acc + ticket.totalWin, 0);
   const revealedTotalBet = bet * revealedPlays.length;
-  const remainingTickets = Math.max(0, packTotal - packRevealed);
+  const remainingTickets = Math.max(0, packTotal - packOpened);
   const bestRevealed = revealedPlays.reduce<PackPlay | null>((best, ticket) => {
     if (!best || ticket.totalWin > best.totalWin) {
       return ticket;
@@ -475,6 +931,25 @@ export default function Home() {
     }
   }, [mode, revealedTotalWin]);
 
+  const ticketInProgress =
+    state === "LOADING" ||
+    state === "REVEAL" ||
+    state === "CASCADE_LOOP" ||
+    Boolean(bonusSession) ||
+    packExpected !== null ||
+    (packOutcome ? packRevealed < packOutcome.plays.length : false);
+
+  const packFinished = Boolean(packOutcome) && packExpected === null && packRevealed >= packReceived;
+  useEffect(() => {
+    if (packFinished) creditWin();
+  }, [packFinished]);
+
+  useEffect(() => {
+    if (!pendingConfig || ticketInProgress) return;
+    applyConfig(pendingConfig, true);
+    setPendingConfig(null);
+  }, [applyConfig, pendingConfig, ticketInProgress]);
+
   const moneyFormat = config?.money;
   const jackpots = config?.jackpots;
   const betValues = config?.betValues?.length ? config.betValues : config ? [config.betOptions.minBet] : [];
@@ -487,11 +962,28 @@ export default function Home() {
   const totalWinLabel = moneyFormat
     ? formatMoney(displayedWin, moneyFormat)
     : `$${displayedWin.toLocaleString("es-CL")}`;
+  const balanceLabel =
+    wallet.balance === null
+      ? "-"
+      : moneyFormat
+        ? formatMoney(wallet.balance, moneyFormat)
+        : `$${wallet.balance.toLocaleString("es-CL")}`;
+  // A prize still in flight is not counted until the shot lands.
+  const bonusShownWin =
+    (bonusSession?.totalWin ?? 0) -
+    (!bonusShotLanded && bonusSession?.revealedCell?.type === "prize" ? bonusSession.revealedCell.amount : 0);
   const bonusTotalLabel = moneyFormat
-    ? formatMoney(bonusSession?.totalWin ?? 0, moneyFormat)
-    : `$${(bonusSession?.totalWin ?? 0).toLocaleString("es-CL")}`;
-  const bonusActive = Boolean(bonusSession);
-  const showBonusLetters = bonusSession?.mode === "nivel2";
+    ? formatMoney(bonusShownWin, moneyFormat)
+    : `$${bonusShownWin.toLocaleString("es-CL")}`;
+  const bonusLevelLabel =
+    bonusSession && bonusSession.maxLevel > 1 ? `Nivel ${bonusSession.level}/${bonusSession.maxLevel}` : null;
+  const bonusHudLabel = bonusSession ? (bonusLevelLabel ? `BONUS ${bonusLevelLabel}` : "BONUS") : "-";
+  const connectionClass =
+    connectionState === "open"
+      ? styles.connectionOpen
+      : connectionState === "offline"
+        ? styles.connectionOffline
+        : styles.connectionPending;
 
   const packLevelLabel = packLevel === "nivel1" ? "Nivel 1" : "Nivel 2";
   const modeBadge =
@@ -522,11 +1014,38 @@ export default function Home() {
   const betDisplay = moneyFormat ? formatMoney(betValue, moneyFormat) : `$${betValue.toLocaleString("es-CL")}`;
   const canDecreaseBet = betIndex > 0;
   const canIncreaseBet = betIndex < safeBetValues.length - 1;
-  const canRevealMore = !packOutcome || packRevealed < packTotal;
+  const packWaiting = Boolean(packOutcome) && packRevealed >= packReceived && packReceived < packTotal;
+  // Opening tickets of a pack already bought costs nothing; only a new purchase needs funds.
+  const purchaseCost = mode === "pack" ? bet * packSize : bet;
+  const buyingTicket = mode !== "pack" || !packOutcome;
+  const insufficientFunds = buyingTicket && !canAfford(purchaseCost, wallet);
+  const limitBlock = buyingTicket ? limitBlockFor(purchaseCost) : null;
+  const purchaseBlocked = insufficientFunds || limitBlock !== null;
+
+  const autoplayConfig = config?.autoplay;
+  const autoplayOptions = autoplayConfig ? autoplayRoundOptions(autoplayConfig) : [];
+  const autoplaySettings: AutoplaySettings = {
+    rounds: autoplayOptions.includes(autoplayForm.rounds) ? autoplayForm.rounds : (autoplayOptions[0] ?? 0),
+    stopOnWinAbove: parseAmount(autoplayForm.winAbove),
+    stopOnBalanceBelow: parseAmount(autoplayForm.balanceBelow),
+    stopOnLossAbove: parseAmount(autoplayForm.lossAbove),
+    stopOnBonus: autoplayForm.bonus,
+  };
+  const updateAutoplayForm = (next: Partial<AutoplayForm>) => setAutoplayForm((prev) => ({ ...prev, ...next }));
+
+  const handleStartAutoplay = () => {
+    if (!autoplayConfig || !canStartAutoplay(autoplayConfig, autoplaySettings) || purchaseBlocked) return;
+    setAutoplay(startAutoplay(autoplaySettings, autoplayConfig));
+    setAutoplayNotice(null);
+    handlePlaySingle();
+  };
+  const canRevealMore = !packOutcome || (packRevealed < packTotal && !packWaiting);
 
-  const packActionLabel = packOutcome
-    ? `Abrir ticket (${remainingTickets} restantes)`
-    : `Generar ${packSize} tickets`;
+  const packActionLabel = packWaiting
+    ? `Recibiendo tickets (${packReceived}/${packTotal})...`
+    : packOutcome
+      ? `Abrir ticket (${remainingTickets} restantes)`
+      : `Generar ${packSize} tickets`;
 
   const rulesPages = config?.symbolPaytable ?? [];
   const rulesTotal = rulesPages.length;
@@ -548,62 +1067,11 @@ export default function Home() {
     setRulesIndex((prev) => (prev + 1) % rulesTotal);
   };
 
-  const onBonusPick = (cellIndex: number) => {
-    if (!bonusSession) return;
-    if (bonusIntroActive) return;
-    if (bonusSession.revealedCell) return;
-    const selected = bonusSession.cells[cellIndex];
-    if (!selected) return;
-
-    const history = [...bonusSession.history, selected];
-    if (selected.type === "prize") {
-      const amount = Math.max(0, selected.amount);
-      if (amount > 0) {
-        gameBus.emit("game:win:increment", { playId: bonusSession.playId, amount });
-      }
-
-      setBonusSession({
-        ...bonusSession,
-        totalWin: bonusSession.totalWin + amount,
-        revealedIndex: cellIndex,
-        revealedCell: selected,
-        history,
-      });
-      return;
-    }
-
-    setBonusSession({
-      ...bonusSession,
-      revealedIndex: cellIndex,
-      revealedCell: selected,
-      history,
-    });
-  };
-
   const onBonusContinue = () => {
     if (!bonusSession?.revealedCell) return;
-
-    if (bonusSession.revealedCell.type === "end" || bonusSession.round >= bonusSession.maxRounds) {
-      setBonusSession(null);
-      scheduleEndTicket(300);
-      return;
-    }
-
-    const nextRound = bonusSession.round + 1;
-    const cells = buildBonusCells(
-      bonusSession.playId,
-      nextRound,
-      bet,
-      bonusSession.prizeMultipliers,
-      bonusSession.endCode,
-    );
-    setBonusSession({
-      ...bonusSession,
-      round: nextRound,
-      cells,
-      revealedIndex: undefined,
-      revealedCell: undefined,
-    });
+    const next = nextBonusRound(bonusSession);
+    setBonusSession(next);
+    if (!next) scheduleEndTicket(300);
   };
 
   const rulesInfoContent = (
@@ -748,13 +1216,103 @@ export default function Home() {
     </div>
   );
 
+  const openReplay = (outcome: PlayOutcome) => setReplayModal(asReplay(outcome));
+
   const packPlayForModal = (ticketIndex: number) => {
     const ticket = packOutcome?.plays[ticketIndex];
     if (ticket) {
-      setReplayModal(asPlayOutcome(ticket));
+      openReplay(asPlayOutcome(ticket));
     }
   };
 
+  const openHistory = () => {
+    if (uiStage !== "history") historyReturnRef.current = uiStage;
+    setUiStage("history");
+  };
+
+  const updateHistoryFilters = (next: Partial<HistoryFilters>) => {
+    setHistoryFilters((prev) => ({ ...prev, ...next }));
+  };
+
+  const formatAmount = (amount: number) =>
+    moneyFormat ? formatMoney(amount, moneyFormat) : `$${amount.toLocaleString("es-CL")}`;
+
+  const describeLimitBlock = (block: LimitBlock) => {
+    if (block.reason === "cool_off") {
+      const until = new Date(block.until).toLocaleString("es-CL", { dateStyle: "short", timeStyle: "short" });
+      return `Estas en una pausa de juego hasta el ${until}.`;
+    }
+    const limit = block.reason === "bet_limit" ? "apuestas" : "perdidas";
+    return `Esta compra superaria el limite de ${limit} de la sesion (${formatAmount(block.limit)}).`;
+  };
+
+  const renderHistoryEntry = (entry: HistoryEntry) => {
+    const playedAt = new Date(entry.playedAt).toLocaleString("es-CL");
+    if (entry.kind === "play") {
+      const ticket = entry.outcome;
+      return (
+        <li key={ticket.playId} className={styles.historyRow}>
+          <div>
+            <p className={styles.label}>{playedAt}</p>
+            <p className={styles.bold}>Ticket {ticket.mode === "nivel2" ? "Nivel 2" : "Nivel 1"}</p>
+          </div>
+          <div>
+            <p className={styles.label}>Apuesta / Premio</p>
+            <p className={styles.bold}>
+              {formatAmount(ticket.bet)} / {formatAmount(ticket.totalWin)}
+            </p>
+          </div>
+          <button className={styles.ghost} onClick={() => openReplay(ticket)} type="button">
+            Ver jugada
+          </button>
+        </li>
+      );
+    }
+    const pack = entry.outcome;
+    const expanded = historyPackOpen === pack.packId;
+    return (
+      <li key={pack.packId} className={styles.historyRow}>
+        <div>
+          <p className={styles.label}>{playedAt}</p>
+          <p className={styles.bold}>
+            Pack {pack.plays.length} tickets - {pack.packLevel === "nivel2" ? "Nivel 2" : "Nivel 1"}
+          </p>
+        </div>
+        <div>
+          <p className={styles.label}>Apuesta / Premio</p>
+          <p className={styles.bold}>
+            {formatAmount(pack.totalBet)} / {formatAmount(pack.totalWin)}
+          </p>
+        </div>
+        <button
+          className={styles.ghost}
+          onClick={() => setHistoryPackOpen(expanded ? null : pack.packId)}
+          type="button"
+        >
+          {expanded ? "Ocultar tickets" : "Ver tickets"}
+        </button>
+        {expanded ? (
+          <div className={`${styles.packGrid} ${styles.historyTickets}`}>
+            {pack.plays.map((ticket) => (
+              <button
+                key={ticket.playId}
+                className={styles.packCard}
+                onClick={() => openReplay(asPlayOutcome(ticket))}
+                type="button"
+              >
+                <span className={styles.packIndex}>Ticket {ticket.ticketIndex + 1}</span>
+                <span className={ticket.totalWin > 0 ? styles.packWin : styles.packWinMuted}>
+                  {formatAmount(ticket.totalWin)}
+                </span>
+                <span className={styles.packReplay}>Ver jugada</span>
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </li>
+    );
+  };
+
   const renderPackGrid = () => {
     const tickets = packOutcome ? packOutcome.plays.slice(0, packRevealed) : [];
     const size = packTotal;
@@ -766,10 +1324,12 @@ export default function Home() {
       <div className={styles.packGrid}>
         {items.map((ticket, idx) => {
           if (!ticket) {
+            const arrived = idx < packReceived;
+            const pendingClass = arrived || idx >= size ? "" : styles.packPending;
             return (
-              <div key={`placeholder-${idx}`} className={`${styles.packCard} ${styles.packPlaceholder}`}>
+              <div key={`placeholder-${idx}`} className={`${styles.packCard} ${styles.packPlaceholder} ${pendingClass}`}>
                 <span className={styles.packIndex}>Ticket {idx + 1}</span>
-                <span className={styles.packWinMuted}>¿?</span>
+                <span className={styles.packWinMuted}>{arrived || idx >= size ? "¿?" : "..."}</span>
               </div>
             );
           }
@@ -811,6 +1371,9 @@ export default function Home() {
                 <button className={styles.ghost} onClick={refreshConfig} type="button">
                   Reload config
                 </button>
+                <button className={styles.ghost} onClick={openHistory} type="button">
+                  Historial
+                </button>
                 <Link className={styles.ghost} href="/backoffice">
                   Backoffice
                 </Link>
@@ -819,6 +1382,40 @@ export default function Home() {
           </div>
         </div>
 
+        {maintenance ? <p className={styles.maintenanceBanner}>{maintenance.message}</p> : null}
+
+        {protocolMismatch ? (
+          <div className={styles.modalOverlay}>
+            <div className={`${styles.panel} ${styles.refreshPanel}`}>
+              <h2>Hay una nueva version del juego</h2>
+              <p className={styles.muted}>Actualiza la pagina para seguir jugando. Tus tickets ya jugados estan guardados.</p>
+              <button className={styles.primary} onClick={() => window.location.reload()} type="button">
+                Actualizar
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {pendingPlay && uiStage !== "splash" ? (
+          <div className={styles.modalOverlay}>
+            <div className={`${styles.panel} ${styles.refreshPanel}`}>
+              <h2>Tienes un ticket sin terminar</h2>
+              <p className={styles.muted}>
+                El ticket {pendingPlay.play.playId} se interrumpio antes de terminar. Su premio ya esta acreditado;
+                puedes ver como termina desde donde quedo.
+              </p>
+              <div className={styles.modalActions}>
+                <button className={styles.primary} onClick={resumePendingPlay} type="button">
+                  Continuar ticket
+                </button>
+                <button className={styles.ghost} onClick={discardPendingPlay} type="button">
+                  Descartar
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : null}
+
         {uiStage === "splash" ? (
           <section className={`${styles.panel} ${styles.splash}`}>
             <div className={styles.splashLogo}>
@@ -843,6 +1440,7 @@ export default function Home() {
                   <p className={styles.metricValue}>${(jackpots?.menor ?? 0).toLocaleString()}</p>
                 </div>
               </div>
+              {renderError()}
               <h2>Elige tu experiencia</h2>
               <div className={styles.modeGrid}>
                 {availableModes.map((m) => (
@@ -981,6 +1579,86 @@ export default function Home() {
           </section>
         ) : null}
 
+        {uiStage === "history" ? (
+          <section className={styles.panel}>
+            <div className={styles.panelHeader}>
+              <h2>Historial de tickets</h2>
+              <button className={styles.secondary} onClick={() => setUiStage(historyReturnRef.current)} type="button">
+                Volver
+              </button>
+            </div>
+            <div className={styles.historyFilters}>
+              <label>
+                <span className={styles.label}>Jugadas</span>
+                <select
+                  value={historyFilters.scope}
+                  onChange={(e) => updateHistoryFilters({ scope: e.target.value as HistoryScope })}
+                  className={styles.select}
+                >
+                  <option value="session">Esta sesion</option>
+                  <option value="player">Todas mis jugadas</option>
+                </select>
+              </label>
+              <label>
+                <span className={styles.label}>Modo</span>
+                <select
+                  value={historyFilters.mode}
+                  onChange={(e) => updateHistoryFilters({ mode: e.target.value as HistoryFilters["mode"] })}
+                  className={styles.select}
+                >
+                  <option value="all">Todos</option>
+                  <option value="nivel1">Nivel 1</option>
+                  <option value="nivel2">Nivel 2</option>
+                  <option value="pack">Paquetes</option>
+                </select>
+              </label>
+              <label>
+                <span className={styles.label}>Desde</span>
+                <input
+                  type="date"
+                  value={historyFilters.from}
+                  max={historyFilters.to || undefined}
+                  onChange={(e) => updateHistoryFilters({ from: e.target.value })}
+                  className={styles.select}
+                />
+              </label>
+              <label>
+                <span className={styles.label}>Hasta</span>
+                <input
+                  type="date"
+                  value={historyFilters.to}
+                  min={historyFilters.from || undefined}
+                  onChange={(e) => updateHistoryFilters({ to: e.target.value })}
+                  className={styles.select}
+                />
+              </label>
+            </div>
+            {history.error ? (
+              <div className={styles.errorRow}>
+                <p className={styles.error}>{history.error.message}</p>
+                <button className={styles.ghost} onClick={() => loadHistory(historyFilters)} type="button">
+                  Reintentar
+                </button>
+              </div>
+            ) : null}
+            {history.entries.length > 0 ? (
+              <ul className={styles.historyList}>{history.entries.map(renderHistoryEntry)}</ul>
+            ) : !history.loading && !history.error ? (
+              <p className={styles.muted}>No hay tickets para estos filtros.</p>
+            ) : null}
+            {history.loading ? <p className={styles.muted}>Cargando historial...</p> : null}
+            {history.nextCursor && !history.loading ? (
+              <button
+                className={styles.secondary}
+                onClick={() => loadHistory(historyFilters, history.nextCursor)}
+                type="button"
+              >
+                Cargar mas
+              </button>
+            ) : null}
+          </section>
+        ) : null}
+
         {uiStage === "play" ? (
           <section className={styles.columns}>
             <article className={styles.panel}>
@@ -1006,9 +1684,17 @@ export default function Home() {
                   <p className={styles.label}>Win</p>
                   <p className={styles.bold}>{totalWinLabel}</p>
                 </div>
+                <div>
+                  <p className={styles.label}>Saldo</p>
+                  <p className={styles.bold}>{balanceLabel}</p>
+                </div>
                 <div>
                   <p className={styles.label}>Bonus</p>
-                  <p className={styles.bold}>{bonusActive ? "BONUS" : "-"}</p>
+                  <p className={styles.bold}>{bonusHudLabel}</p>
+                </div>
+                <div>
+                  <p className={styles.label}>Conexion</p>
+                  <p className={`${styles.bold} ${connectionClass}`}>{connectionLabels[connectionState]}</p>
                 </div>
               </div>
 
@@ -1054,7 +1740,12 @@ export default function Home() {
               <div className={styles.actions}>
                 {mode === "pack" ? (
                   <>
-                    <button className={styles.primary} onClick={handlePlayPack} type="button" disabled={!canRevealMore}>
+                    <button
+                      className={styles.primary}
+                      onClick={handlePlayPack}
+                      type="button"
+                      disabled={!canRevealMore || purchaseBlocked}
+                    >
                       {packActionLabel}
                     </button>
                     {packOutcome && remainingTickets > 0 ? (
@@ -1064,15 +1755,132 @@ export default function Home() {
                     ) : null}
                   </>
                 ) : (
-                  <button className={styles.primary} onClick={handlePlaySingle} type="button">
+                  <button
+                    className={styles.primary}
+                    onClick={handlePlaySingle}
+                    type="button"
+                    disabled={purchaseBlocked || autoplay !== null}
+                  >
                     Play ►
                   </button>
                 )}
-                <button className={styles.ghost} onClick={() => setUiStage("bet")} type="button">
+                {mode !== "pack" ? (
+                  <button
+                    className={styles.ghost}
+                    onClick={() => setTurbo((prev) => !prev)}
+                    type="button"
+                    aria-pressed={turbo}
+                  >
+                    Turbo {turbo ? "ON" : "OFF"}
+                  </button>
+                ) : null}
+                {boardPlay && (state === "REVEAL" || state === "CASCADE_LOOP") ? (
+                  <button
+                    className={styles.ghost}
+                    onClick={() => uiBus.emit("ui:skip-animation", { playId: boardPlay.playId })}
+                    type="button"
+                  >
+                    Saltar animacion
+                  </button>
+                ) : null}
+                <button
+                  className={styles.ghost}
+                  onClick={() => setUiStage("bet")}
+                  type="button"
+                  disabled={autoplay !== null}
+                >
                   Cambiar monto
                 </button>
               </div>
-              {error ? <p className={styles.error}>{error}</p> : null}
+              {insufficientFunds ? (
+                <p className={styles.error}>
+                  Saldo insuficiente para {mode === "pack" ? `un pack de ${packSize} tickets` : "este ticket"}. Baja el
+                  monto o recarga tu saldo.
+                </p>
+              ) : null}
+              {limitBlock ? <p className={styles.error}>{describeLimitBlock(limitBlock)}</p> : null}
+              {mode !== "pack" && autoplayConfig ? (
+                <div className={styles.autoplay}>
+                  {autoplay ? (
+                    <>
+                      <p className={styles.label}>
+                        Autoplay: ticket {Math.min(autoplay.played + 1, autoplay.settings.rounds)} de{" "}
+                        {autoplay.settings.rounds}
+                      </p>
+                      <button className={styles.secondary} onClick={() => stopAutoplay("player")} type="button">
+                        Detener autoplay
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <label>
+                        <span className={styles.label}>Autoplay</span>
+                        <select
+                          value={autoplaySettings.rounds}
+                          onChange={(e) => updateAutoplayForm({ rounds: Number(e.target.value) })}
+                          className={styles.select}
+                        >
+                          {autoplayOptions.map((rounds) => (
+                            <option key={rounds} value={rounds}>
+                              {rounds} tickets
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label>
+                        <span className={styles.label}>Parar si un premio supera</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={autoplayForm.winAbove}
+                          onChange={(e) => updateAutoplayForm({ winAbove: e.target.value })}
+                          className={styles.select}
+                        />
+                      </label>
+                      <label>
+                        <span className={styles.label}>Parar si el saldo baja de</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={autoplayForm.balanceBelow}
+                          onChange={(e) => updateAutoplayForm({ balanceBelow: e.target.value })}
+                          className={styles.select}
+                        />
+                      </label>
+                      <label>
+                        <span className={styles.label}>
+                          Parar si la perdida supera{autoplayConfig.requireLossLimit ? " (obligatorio)" : ""}
+                        </span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={autoplayForm.lossAbove}
+                          onChange={(e) => updateAutoplayForm({ lossAbove: e.target.value })}
+                          className={styles.select}
+                        />
+                      </label>
+                      <label>
+                        <span className={styles.label}>Parar al activar el bonus</span>
+                        <input
+                          type="checkbox"
+                          checked={autoplayForm.bonus}
+                          onChange={(e) => updateAutoplayForm({ bonus: e.target.checked })}
+                        />
+                      </label>
+                      <button
+                        className={styles.secondary}
+                        onClick={handleStartAutoplay}
+                        type="button"
+                        disabled={purchaseBlocked || !canStartAutoplay(autoplayConfig, autoplaySettings)}
+                      >
+                        Iniciar autoplay
+                      </button>
+                    </>
+                  )}
+                  {autoplayNotice ? <p className={styles.muted}>{autoplayNotice}</p> : null}
+                </div>
+              ) : null}
+              {renderError()}
               <div className={styles.rulesButtonRow}>
                 <button
                   className={styles.rulesButton}
@@ -1089,6 +1897,10 @@ export default function Home() {
                   <span className={styles.rulesIcon}>i</span>
                   <span>Informacion</span>
                 </button>
+                <button className={styles.rulesButton} onClick={() => setRealityCheckAt(Date.now())} type="button">
+                  <span className={styles.rulesIcon}>i</span>
+                  <span>Juego responsable</span>
+                </button>
               </div>
             </article>
 
@@ -1119,7 +1931,7 @@ export default function Home() {
                     <div>
                       <p className={styles.label}>Tickets abiertos</p>
                       <p className={styles.bold}>
-                        {packRevealed} / {packTotal}
+                        {packOpened} / {packTotal}
                       </p>
                     </div>
                     <div>
@@ -1138,6 +1950,8 @@ export default function Home() {
                     symbolPaytable={config?.symbolPaytable}
                     previewSize={boardVisualConfig.previewSize}
                     fillMode={boardVisualConfig.fillMode}
+                    turbo={turbo}
+                    resumeStep={resume && resume.playId === boardPlay?.playId ? resume.step : undefined}
                   />
                 </div>
               )}
@@ -1157,43 +1971,30 @@ export default function Home() {
             <div className={styles.bonusHeader}>
               <p className={styles.bonusTitle}>BONUS</p>
               <span className={styles.chip}>Ronda {bonusSession.round}</span>
+              {bonusLevelLabel ? <span className={styles.chip}>{bonusLevelLabel}</span> : null}
             </div>
-            <p className={styles.bonusHint}>{bonusIntroActive ? "Bonus activado..." : "Selecciona una celda"}</p>
-            <div className={styles.bonusGrid}>
-              {bonusSession.cells.map((cell, idx) => (
-                <button
-                  key={cell.id}
-                  className={`${styles.bonusCell} ${bonusIntroActive ? styles.bonusCellIntro : ""} ${bonusSession.revealedIndex === idx ? styles.bonusCellRevealed : ""}`}
-                  onClick={() => onBonusPick(idx)}
-                  type="button"
-                  disabled={Boolean(bonusSession.revealedCell) || bonusIntroActive}
-                  style={bonusIntroActive ? { animationDelay: `${idx * 140}ms` } : undefined}
-                >
-                  <span className={styles.bonusCellTop}>Objetivo {idx + 1}</span>
-                  {showBonusLetters ? <span className={styles.bonusCellLetter}>{String.fromCharCode(65 + idx)}</span> : null}
-                  <span className={styles.bonusCellBottom}>
-                    {bonusSession.revealedIndex === idx
-                      ? cell.type === "prize"
-                        ? `Ganaste ${moneyFormat ? formatMoney(cell.amount, moneyFormat) : `$${cell.amount.toLocaleString("es-CL")}`}`
-                        : bonusSession.endCode
-                      : bonusIntroActive
-                        ? "..."
-                        : "Tap / Click"}
-                  </span>
-                </button>
-              ))}
-            </div>
-            {bonusSession.revealedCell ? (
+            <PhaserBonus session={bonusSession} turbo={turbo} />
+            {bonusSession.revealedCell && bonusShotLanded ? (
               <div className={styles.bonusResult}>
                 {bonusSession.revealedCell.type === "prize" ? (
                   <p className={styles.bonusHint}>
-                    Premio encontrado. Puedes seguir intentando otro tiro.
+                    Hundiste un barco y ganaste {formatAmount(bonusSession.revealedCell.amount)}.{" "}
+                    {bonusSession.round < bonusSession.rounds.length
+                      ? "Puedes seguir disparando."
+                      : "Era la ultima ronda del bonus."}
+                  </p>
+                ) : bonusSession.revealedCell.type === "level-up" ? (
+                  <p className={styles.bonusHint}>
+                    Le diste al pulpo: los premios suben al nivel {bonusSession.level}.{" "}
+                    {bonusSession.round < bonusSession.rounds.length
+                      ? "Puedes seguir disparando."
+                      : "Era la ultima ronda del bonus."}
                   </p>
                 ) : (
                   <p className={styles.bonusHint}>Encontraste {bonusSession.endCode}. El bonus termina.</p>
                 )}
                 <button className={styles.primary} onClick={onBonusContinue} type="button">
-                  {bonusSession.revealedCell.type === "prize" ? "Seguir bonus" : "Cerrar bonus"}
+                  {bonusSession.round < bonusSession.rounds.length ? "Seguir bonus" : "Cerrar bonus"}
                 </button>
               </div>
             ) : null}
@@ -1208,7 +2009,7 @@ export default function Home() {
         <div className={styles.modalOverlay}>
           <div className={styles.modal}>
             <div className={styles.modalHeader}>
-              <p>Replay {replayModal.playId}</p>
+              <p>Replay {originalPlayId(replayModal.playId)}</p>
               <button className={styles.ghost} onClick={() => setReplayModal(null)} type="button">
                 Cerrar
               </button>
@@ -1220,7 +2021,93 @@ export default function Home() {
                 symbolPaytable={config?.symbolPaytable}
                 previewSize={replayVisualConfig.previewSize}
                 fillMode={replayVisualConfig.fillMode}
+                turbo={turbo}
               />
+              {replayBonus ? (
+                <div className={styles.replayBonus}>
+                  <div className={styles.bonusPanel}>
+                    <div className={styles.bonusHeader}>
+                      <p className={styles.bonusTitle}>BONUS</p>
+                      <span className={styles.chip}>
+                        Ronda {replayBonus.round} de {replayBonus.rounds.length}
+                      </span>
+                      {replayBonus.maxLevel > 1 ? (
+                        <span className={styles.chip}>
+                          Nivel {replayBonus.level}/{replayBonus.maxLevel}
+                        </span>
+                      ) : null}
+                    </div>
+                    <div className={styles.bonusGrid}>
+                      {replayBonus.cells.map((cell, idx) => (
+                        <div
+                          key={`${replayBonus.round}-${idx}`}
+                          className={
+                            replayBonus.revealedIndex === idx
+                              ? `${styles.bonusCell} ${styles.bonusCellRevealed}`
+                              : styles.bonusCell
+                          }
+                        >
+                          <span className={styles.bonusCellTop}>Objetivo {idx + 1}</span>
+                          <span className={styles.bonusCellBottom}>
+                            {replayBonus.revealedCell
+                              ? cell.type === "prize"
+                                ? `x${cell.multiplier} · ${formatAmount(cell.amount)}`
+                                : cell.type === "level-up"
+                                  ? "Pulpo · sube nivel"
+                                  : replayBonus.endCode
+                              : "..."}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className={styles.bonusHint}>
+                      {replayBonus.revealedIndex === undefined
+                        ? "Eligiendo..."
+                        : `Elegido: objetivo ${replayBonus.revealedIndex + 1}`}
+                    </p>
+                    <div className={styles.bonusStats}>
+                      <span>Tablero: {formatAmount(cascadeWin(replayModal))}</span>
+                      <span>Bonus: {formatAmount(replayBonus.totalWin)}</span>
+                      <span>Total ticket: {formatAmount(replayModal.totalWin)}</span>
+                    </div>
+                    {bonusFinished(replayBonus) ? (
+                      <button className={styles.ghost} onClick={() => setReplayBonus(null)} type="button">
+                        Ver tablero
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {realityCheckAt !== null ? (
+        <div className={styles.modalOverlay}>
+          <div className={`${styles.panel} ${styles.refreshPanel}`}>
+            <h2>Juego responsable</h2>
+            <p className={styles.muted}>
+              Llevas {formatMinutes((realityCheckAt - playSession.startedAt) / 60000)} jugando en esta sesion.
+            </p>
+            <div className={styles.jackpotBar}>
+              <div>
+                <p className={styles.metricLabel}>Apostado</p>
+                <p className={styles.metricValue}>{formatAmount(playSession.totalBet)}</p>
+              </div>
+              <div>
+                <p className={styles.metricLabel}>Ganado</p>
+                <p className={styles.metricValue}>{formatAmount(playSession.totalWin)}</p>
+              </div>
+            </div>
+            <div className={styles.modalActions}>
+              <button className={styles.primary} onClick={() => setRealityCheckAt(null)} type="button">
+                Seguir jugando
+              </button>
+              {(responsibleGaming?.coolOffMinutes ?? []).map((minutes) => (
+                <button className={styles.ghost} key={minutes} onClick={() => takeBreak(minutes)} type="button">
+                  Pausa de {formatMinutes(minutes)}
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { autoplayRoundOptions, canStartAutoplay, recordAutoplayTicket, startAutoplay } from "./autoplay";
+
+const limits = { maxRounds: 50, roundOptions: [10, 25, 50, 100] };
+const ticket = { bet: 100, totalWin: 0, bonus: false };
+
+describe("autoplay", () => {
+  it("keeps the ticket count within the client's limit", () => {
+    expect(autoplayRoundOptions(limits)).toEqual([10, 25, 50]);
+    expect(autoplayRoundOptions({ maxRounds: 5 })).toEqual([5]);
+    expect(startAutoplay({ rounds: 100 }, limits).settings.rounds).toBe(50);
+  });
+
+  it("requires a loss stop where the client asks for one", () => {
+    const strict = { ...limits, requireLossLimit: true };
+    expect(canStartAutoplay(undefined, { rounds: 10 })).toBe(false);
+    expect(canStartAutoplay(strict, { rounds: 10 })).toBe(false);
+    expect(canStartAutoplay(strict, { rounds: 10, stopOnLossAbove: 0 })).toBe(true);
+  });
+
+  it("stops after the chosen number of tickets", () => {
+    let run = startAutoplay({ rounds: 2 }, limits);
+    let result = recordAutoplayTicket(run, ticket, null);
+    expect(result.stop).toBeNull();
+    run = result.run;
+    result = recordAutoplayTicket(run, ticket, null);
+    expect(result).toMatchObject({ stop: "rounds", run: { played: 2, totalBet: 200 } });
+  });
+
+  it("stops on a big win, a bonus, a loss or a low balance", () => {
+    const run = startAutoplay(
+      { rounds: 10, stopOnWinAbove: 500, stopOnBonus: true, stopOnLossAbove: 250, stopOnBalanceBelow: 1000 },
+      limits,
+    );
+    expect(recordAutoplayTicket(run, { ...ticket, totalWin: 600 }, 5000).stop).toBe("win");
+    expect(recordAutoplayTicket(run, { ...ticket, bonus: true }, 5000).stop).toBe("bonus");
+    expect(recordAutoplayTicket({ ...run, totalBet: 200 }, ticket, 5000).stop).toBe("loss");
+    expect(recordAutoplayTicket(run, ticket, 900).stop).toBe("balance");
+    expect(recordAutoplayTicket(run, ticket, null).stop).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import type { AutoplayConfig } from "@/api/types";
+
+const DEFAULT_ROUND_OPTIONS = [10, 25, 50, 100];
+
+export interface AutoplaySettings {
+  rounds: number;
+  /** Stops once a single ticket wins more than this. */
+  stopOnWinAbove?: number;
+  stopOnBalanceBelow?: number;
+  /** Stops once the run has lost more than this (bets minus winnings). */
+  stopOnLossAbove?: number;
+  stopOnBonus?: boolean;
+}
+
+export interface AutoplayRun {
+  settings: AutoplaySettings;
+  played: number;
+  totalBet: number;
+  totalWin: number;
+}
+
+export interface AutoplayTicket {
+  bet: number;
+  totalWin: number;
+  bonus: boolean;
+}
+
+/** `player` and `blocked` come from the UI (stop button, a purchase the wallet or the limits refuse). */
+export type AutoplayStopReason = "rounds" | "win" | "bonus" | "loss" | "balance" | "player" | "blocked";
+
+export function autoplayRoundOptions(config: AutoplayConfig): number[] {
+  const options = (config.roundOptions ?? DEFAULT_ROUND_OPTIONS).filter(
+    (rounds) => rounds > 0 && rounds <= config.maxRounds,
+  );
+  return options.length > 0 ? options : [config.maxRounds];
+}
+
+/** Settings the client rules out: autoplay disabled, or no loss stop where the jurisdiction asks for one. */
+export function canStartAutoplay(config: AutoplayConfig | undefined, settings: AutoplaySettings): boolean {
+  if (!config || config.maxRounds < 1 || settings.rounds < 1) return false;
+  return !config.requireLossLimit || settings.stopOnLossAbove !== undefined;
+}
+
+/** The ticket count is capped to the client's limit whatever the settings ask for. */
+export function startAutoplay(settings: AutoplaySettings, config: AutoplayConfig): AutoplayRun {
+  const rounds = Math.max(1, Math.min(Math.floor(settings.rounds), config.maxRounds));
+  return { settings: { ...settings, rounds }, played: 0, totalBet: 0, totalWin: 0 };
+}
+
+/** Books a finished ticket and says whether the run has to stop before buying the next one. */
+export function recordAutoplayTicket(
+  run: AutoplayRun,
+  ticket: AutoplayTicket,
+  balance: number | null,
+): { run: AutoplayRun; stop: AutoplayStopReason | null } {
+  const next = {
+    ...run,
+    played: run.played + 1,
+    totalBet: run.totalBet + ticket.bet,
+    totalWin: run.totalWin + ticket.totalWin,
+  };
+  const { stopOnWinAbove, stopOnBonus, stopOnLossAbove, stopOnBalanceBelow, rounds } = run.settings;
+  let stop: AutoplayStopReason | null = null;
+  if (stopOnWinAbove !== undefined && ticket.totalWin > stopOnWinAbove) stop = "win";
+  else if (stopOnBonus && ticket.bonus) stop = "bonus";
+  else if (stopOnLossAbove !== undefined && next.totalBet - next.totalWin > stopOnLossAbove) stop = "loss";
+  else if (stopOnBalanceBelow !== undefined && balance !== null && balance < stopOnBalanceBelow) stop = "balance";
+  else if (next.played >= rounds) stop = "rounds";
+  return { run: next, stop };
+}
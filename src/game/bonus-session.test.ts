@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { BonusCell } from "@/api/types";
+import {
+  advanceBonusReplay,
+  bonusFinished,
+  nextBonusRound,
+  revealBonusPick,
+  startBonusSession,
+} from "./bonus-session";
+
+const prize = (amount: number): BonusCell => ({ type: "prize", multiplier: amount / 100, amount });
+const end: BonusCell = { type: "end", multiplier: 0, amount: 0 };
+
+const bonusData = {
+  mode: "nivel1" as const,
+  triggerCount: 2,
+  prizeMultipliers: [2, 3, 5],
+  endCode: "FIN",
+  maxRounds: 5,
+  rounds: [
+    { cells: [prize(200), end, prize(500)], pick: 2 },
+    { cells: [end, prize(300), prize(200)], pick: 0 },
+  ],
+  totalWin: 500,
+};
+
+describe("bonus session", () => {
+  it("reveals the server's pick under whichever cell was tapped", () => {
+    const session = revealBonusPick(startBonusSession("p-1", bonusData)!, 0);
+    expect(session).toMatchObject({ revealedIndex: 0, revealedCell: prize(500), totalWin: 500 });
+    expect(session.cells).toEqual([prize(500), end, prize(200)]);
+    expect(revealBonusPick(session, 1)).toBe(session);
+  });
+
+  it("walks the dealt rounds and ends on the server's total", () => {
+    let session = revealBonusPick(startBonusSession("p-1", bonusData)!, 1);
+    session = revealBonusPick(nextBonusRound(session)!, 2);
+    expect(session).toMatchObject({ round: 2, revealedCell: end, totalWin: bonusData.totalWin });
+    expect(nextBonusRound(session)).toBeNull();
+    expect(startBonusSession("p-1", { ...bonusData, rounds: [] })).toBeNull();
+  });
+
+  it("raises the prize level on the octopus, never past the top level", () => {
+    const octopus: BonusCell = { type: "level-up", multiplier: 0, amount: 0 };
+    const rounds = [
+      { cells: [octopus, prize(200), end], pick: 0 },
+      { cells: [prize(800), octopus, end], pick: 1 },
+      { cells: [prize(1600), end], pick: 1 },
+    ];
+    let session = startBonusSession("p-1", { ...bonusData, maxLevel: 2, rounds, totalWin: 0 })!;
+    expect(session).toMatchObject({ level: 1, maxLevel: 2 });
+    session = revealBonusPick(session, 2);
+    expect(session).toMatchObject({ level: 2, revealedCell: octopus, totalWin: 0 });
+    session = revealBonusPick(nextBonusRound(session)!, 0);
+    expect(session.level).toBe(2);
+  });
+
+  it("replays every round as dealt until the bonus is over", () => {
+    let session = startBonusSession("p-1", bonusData)!;
+    const revealed: number[] = [];
+    while (!bonusFinished(session)) {
+      session = advanceBonusReplay(session);
+      if (session.revealedIndex !== undefined) revealed.push(session.revealedIndex);
+    }
+    expect(revealed).toEqual([2, 0]);
+    expect(session.cells).toEqual(bonusData.rounds[1].cells);
+    expect(advanceBonusReplay(session)).toBe(session);
+  });
+});
@@ -0,0 +1,75 @@
+import type { BonusCell, BonusRound, CascadeStep } from "@/api/types";
+
+type BonusData = NonNullable<CascadeStep["bonusData"]>;
+
+/** The bonus as the player walks through it; every result comes from the rounds the server dealt. */
+export interface BonusSession {
+  playId: string;
+  mode: BonusData["mode"];
+  triggerCount: number;
+  endCode: string;
+  rounds: BonusRound[];
+  /** Round on screen, starting at 1. */
+  round: number;
+  /** Prize level, raised by each revealed level-up cell up to maxLevel. */
+  level: number;
+  maxLevel: number;
+  /** The round's cells in screen order; once revealed, the server's pick sits under the player's tap. */
+  cells: BonusCell[];
+  revealedIndex?: number;
+  revealedCell?: BonusCell;
+  /** Prizes revealed so far; reaches bonusData.totalWin on the last round. */
+  totalWin: number;
+}
+
+export function startBonusSession(playId: string, bonusData: BonusData): BonusSession | null {
+  const [first] = bonusData.rounds;
+  if (!first) return null;
+  return {
+    playId,
+    mode: bonusData.mode,
+    triggerCount: bonusData.triggerCount,
+    endCode: bonusData.endCode,
+    rounds: bonusData.rounds,
+    round: 1,
+    level: 1,
+    maxLevel: bonusData.maxLevel ?? 1,
+    cells: first.cells,
+    totalWin: 0,
+  };
+}
+
+/** Shows the round's result under the tapped cell by swapping it with the cell the server picked. */
+export function revealBonusPick(session: BonusSession, cellIndex: number): BonusSession {
+  const round = session.rounds[session.round - 1];
+  if (session.revealedCell || !round || cellIndex < 0 || cellIndex >= round.cells.length) return session;
+  const cells = [...round.cells];
+  [cells[cellIndex], cells[round.pick]] = [cells[round.pick], cells[cellIndex]];
+  const revealedCell = cells[cellIndex];
+  return {
+    ...session,
+    cells,
+    revealedIndex: cellIndex,
+    revealedCell,
+    level: revealedCell.type === "level-up" ? Math.min(session.maxLevel, session.level + 1) : session.level,
+    totalWin: session.totalWin + (revealedCell.type === "prize" ? revealedCell.amount : 0),
+  };
+}
+
+/** Moves on after a revealed round; null once the server's rounds are over. */
+export function nextBonusRound(session: BonusSession): BonusSession | null {
+  if (!session.revealedCell) return session;
+  const next = session.rounds[session.round];
+  if (!next) return null;
+  return { ...session, round: session.round + 1, cells: next.cells, revealedIndex: undefined, revealedCell: undefined };
+}
+
+export function bonusFinished(session: BonusSession): boolean {
+  return Boolean(session.revealedCell) && session.round >= session.rounds.length;
+}
+
+/** One step of a read-only replay: reveals the round where the server dealt its pick, then moves to the next one. */
+export function advanceBonusReplay(session: BonusSession): BonusSession {
+  if (!session.revealedCell) return revealBonusPick(session, session.rounds[session.round - 1]?.pick ?? -1);
+  return nextBonusRound(session) ?? session;
+}
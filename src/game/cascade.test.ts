@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { createMockConfig, simulatePlay } from "@/api/mock-engine";
+import { createRng } from "@/lib/rng";
+import { applyCascadeStep, cascadeWin, finalGrid } from "./cascade";
+
+const config = createMockConfig({ clientCode: "demo", companyCode: "demo", gameCode: "e-instant" });
+
+describe("cascade", () => {
+  it("rebuilds each board from removed cells and drops when gridAfter is missing", () => {
+    for (let idx = 0; idx < 20; idx += 1) {
+      const rng = createRng(idx);
+      const play = simulatePlay(config, { playId: `p-${idx}`, level: "nivel2", mode: "nivel2", bet: 100, rng });
+      let grid = play.grid0;
+      play.cascades.forEach((step) => {
+        const next = applyCascadeStep(grid, { ...step, gridAfter: undefined });
+        expect(next).toEqual(step.gridAfter ?? grid);
+        grid = next;
+      });
+      expect(finalGrid(play)).toEqual(grid);
+    }
+  });
+
+  it("leaves bonus steps out of the board win", () => {
+    const step = { removeCells: [], dropIn: [], winStep: 300 };
+    const play = { playId: "p", mode: "nivel1" as const, bet: 100, grid0: [["A"]], totalWin: 0 };
+    expect(cascadeWin({ ...play, cascades: [step, { ...step, winStep: 0, bonus: true }, step] })).toBe(600);
+  });
+});
@@ -0,0 +1,33 @@
+import type { CascadeStep, PlayOutcome } from "@/api/types";
+
+/**
+ * Board after one step: the server's gridAfter when it sent one, otherwise survivors fall to the bottom and the
+ * dropIn symbols fill each column from the top, as the board animates them. Bonus steps leave the board as is.
+ */
+export function applyCascadeStep(grid: string[][], step: CascadeStep): string[][] {
+  if (step.gridAfter) return step.gridAfter.map((row) => [...row]);
+  if (step.bonus) return grid.map((row) => [...row]);
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const removed = new Set(step.removeCells.map((cell) => `${cell.row}-${cell.col}`));
+  const next = grid.map((row) => [...row]);
+  for (let col = 0; col < cols; col += 1) {
+    const column: string[] = [];
+    for (let row = rows - 1; row >= 0; row -= 1) {
+      if (!removed.has(`${row}-${col}`)) column.push(grid[row][col]);
+    }
+    const dropped = step.dropIn.find((drop) => drop.col === col)?.symbols ?? [];
+    column.push(...[...dropped].reverse());
+    for (let row = rows - 1; row >= 0; row -= 1) next[row][col] = column[rows - 1 - row] ?? "";
+  }
+  return next;
+}
+
+export function finalGrid(play: PlayOutcome): string[][] {
+  return play.cascades.reduce(applyCascadeStep, play.grid0);
+}
+
+/** What the board pays out through `game:win:increment`; bonus steps pay through the bonus round instead. */
+export function cascadeWin(play: PlayOutcome): number {
+  return play.cascades.reduce((sum, step) => (step.bonus ? sum : sum + Math.max(0, step.winStep ?? 0)), 0);
+}
@@ -1,5 +1,19 @@
 import { createEventBus } from "@/lib/event-bus";
-import type { GameConfig, GameMode, PackLevel, PackOutcome, PackSize, PlayOutcome } from "@/api/types";
+import type {
+  BalanceChange,
+  ConfigChangedNotice,
+  ConnectionState,
+  SessionStatus,
+  GameConfig,
+  GameMode,
+  JackpotUpdate,
+  MaintenanceNotice,
+  PackLevel,
+  PackOutcome,
+  PackSize,
+  PlayOutcome,
+  ProtocolAgreement,
+} from "@/api/types";
 import type { GameState } from "./state-machine";
 
 export type UiEvents = {
@@ -7,6 +21,7 @@ export type UiEvents = {
   "ui:select-mode": { mode: GameMode };
   "ui:select-pack": { packSize?: number };
   "ui:replay-ticket": { ticketIndex: number };
+  "ui:skip-animation": { playId: string };
 };
 
 export type GameEvents = {
@@ -20,12 +35,25 @@ export type GameEvents = {
     playId: string;
     bonusData?: PlayOutcome["cascades"][number]["bonusData"];
   };
+  /** The player fired at a ship in the bonus scene; the page answers with the revealed session. */
+  "game:bonus:pick": { playId: string; round: number; cellIndex: number };
+  /** The hit or miss of that round finished animating. */
+  "game:bonus:shot": { playId: string; round: number };
   "game:pack:started": { mode: GameMode; bet: number; packSize: PackSize; packLevel: PackLevel };
   "game:pack:completed": PackOutcome;
   "game:win:increment": { playId: string; amount: number };
   "game:replay:opened": { ticketIndex: number };
   "game:replay:closed": { ticketIndex?: number };
-  "game:error": { message: string };
+  "game:jackpot:update": JackpotUpdate;
+  "game:config:changed": ConfigChangedNotice;
+  "game:balance:changed": BalanceChange;
+  "game:maintenance": MaintenanceNotice;
+  "game:connection:state": { state: ConnectionState; attempt: number };
+  "game:session:state": { sessionId: string; status: SessionStatus; playerId?: string };
+  "game:protocol": ProtocolAgreement;
+  "game:protocol:incompatible": { clientVersions: number[]; message: string };
+  "game:latency": { requestType: string; transport: string; ms: number; ok: boolean };
+  "game:error": { message: string; path?: string; requestType?: string };
 };
 
 export const uiBus = createEventBus<UiEvents>();
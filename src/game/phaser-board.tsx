@@ -3,7 +3,8 @@
 import { useEffect, useRef } from "react";
 import type * as PhaserTypes from "phaser";
 import type { GameMode, PlayOutcome, SymbolPaytableEntry } from "@/api/types";
-import { gameBus } from "@/game/events";
+import { applyCascadeStep, cascadeWin, finalGrid } from "@/game/cascade";
+import { gameBus, uiBus } from "@/game/events";
 
 type GridSize = { rows: number; cols: number };
 type FillMode = "replace" | "cascade" | "rodillo";
@@ -14,6 +15,10 @@ type Props = {
   symbolPaytable?: SymbolPaytableEntry[];
   previewSize?: GridSize;
   fillMode?: FillMode;
+  /** Plays every board animation faster. */
+  turbo?: boolean;
+  /** Cascade steps already shown before an interruption; the ticket picks up after them. */
+  resumeStep?: number;
 };
 
 type PhaserModule = typeof import("phaser");
@@ -42,6 +47,10 @@ const DEFAULT_METRICS: BoardMetrics = {
 const BONUS_TRIGGER_SYMBOL = "N";
 const BONUS_HIGHLIGHT_LIMIT = 3;
 const MATCH_CONTOUR_DURATION = 340;
+// Scales every tween and timer of the scene, so the cascade timings keep their proportions.
+const TURBO_TIME_SCALE = 2.5;
+// Explosions, contours and bonus badges are drawn at or above this depth; a skip clears them.
+const EFFECT_DEPTH = 1000;
 const LEVEL_ONE_PREVIEW_SIZE = { rows: 3, cols: 5 };
 const LEVEL_TWO_PREVIEW_SIZE = { rows: 7, cols: 5 };
 const FALLBACK_STRIP_SYMBOLS = ["A", "B", "C", "D", "E", "F", "G", "H", "I", "J", "K", "L", "M", "N", "O"];
@@ -137,6 +146,8 @@ function createBoardScene(
   getPreviewSize: () => GridSize | undefined,
   getFillMode: () => FillMode | undefined,
   getSymbolColor: (symbol: string) => string,
+  getTurbo: () => boolean,
+  getResumeStep: () => number,
 ) {
   return class BoardScene extends Phaser.Scene {
     private cellMap = new Map<string, Phaser.GameObjects.Container>();
@@ -148,6 +159,8 @@ function createBoardScene(
     private accumulatedWin = 0;
     private lastPositions?: { offsetX: number; offsetY: number };
     private reelIntroCleanup?: () => void;
+    private cascadeDone = true;
+    private triggeredBonusSteps = new Set<number>();
 
     constructor() {
       super("BoardScene");
@@ -167,6 +180,17 @@ function createBoardScene(
       this.events.on("clear-play", () => {
         this.clearBoard();
       });
+      this.events.on("speed-changed", () => {
+        this.applySpeed();
+      });
+      this.applySpeed();
+
+      // Tapping the board or the page's skip button jumps to the end of the ticket.
+      this.input.on("pointerdown", () => this.skipToEnd());
+      const stopSkip = uiBus.on("ui:skip-animation", ({ playId }) => {
+        if (playId === this.currentPlay?.playId) this.skipToEnd();
+      });
+      this.events.once(Phaser.Scenes.Events.DESTROY, stopSkip);
 
       const initialPlay = getInitialPlay();
       if (initialPlay) {
@@ -189,6 +213,7 @@ function createBoardScene(
       this.tweens.killAll();
       this.currentPlay = undefined;
       this.accumulatedWin = 0;
+      this.cascadeDone = true;
       const previewMode = getPreviewMode();
       const size = pickBoardSize(undefined, previewMode, getPreviewSize());
       this.boardSize = { rows: Math.max(1, size.rows), cols: Math.max(1, size.cols) };
@@ -198,6 +223,55 @@ function createBoardScene(
       this.drawGrid(emptyGrid);
     }
 
+    private applySpeed() {
+      const scale = getTurbo() ? TURBO_TIME_SCALE : 1;
+      this.time.timeScale = scale;
+      this.tweens.timeScale = scale;
+    }
+
+    private clearEffects() {
+      [...this.children.getChildren()].forEach((child) => {
+        if ((child as Phaser.GameObjects.GameObject & Phaser.GameObjects.Components.Depth).depth >= EFFECT_DEPTH) {
+          child.destroy();
+        }
+      });
+    }
+
+    private finishCascade(play: PlayOutcome) {
+      this.cascadeDone = true;
+      gameBus.emit("game:cascade:completed", { playId: play.playId, totalSteps: play.cascades.length });
+    }
+
+    /**
+     * Drops every pending animation and shows the final board. The events the skipped steps would have sent still go
+     * out: the unpaid part of the win in one increment, any bonus trigger not yet announced, then the completion.
+     */
+    private skipToEnd() {
+      const play = this.currentPlay;
+      if (!play || this.cascadeDone) {
+        return;
+      }
+      this.destroyReelIntro();
+      this.time.removeAllEvents();
+      this.tweens.killAll();
+      this.clearEffects();
+
+      const remainingWin = cascadeWin(play) - this.accumulatedWin;
+      if (remainingWin > 0) {
+        this.accumulatedWin += remainingWin;
+        gameBus.emit("game:win:increment", { playId: play.playId, amount: remainingWin });
+      }
+      play.cascades.forEach((step, idx) => {
+        if (!step.bonus || this.triggeredBonusSteps.has(idx)) return;
+        this.triggeredBonusSteps.add(idx);
+        gameBus.emit("game:bonus:triggered", { playId: play.playId, bonusData: step.bonusData });
+      });
+
+      this.drawGrid(finalGrid(play));
+      this.header?.setText(`Play ${play.playId} - ${play.mode.toUpperCase()} - Win ${this.accumulatedWin}`);
+      this.finishCascade(play);
+    }
+
     private destroyReelIntro() {
       if (this.reelIntroCleanup) {
         this.reelIntroCleanup();
@@ -907,12 +981,20 @@ function createBoardScene(
       this.tweens.killAll();
       this.currentPlay = play;
       this.accumulatedWin = 0;
+      this.cascadeDone = false;
+      this.triggeredBonusSteps.clear();
       const size = pickBoardSize(play, getPreviewMode(), getPreviewSize());
       this.boardSize = {
         rows: Math.max(1, size.rows),
         cols: Math.max(1, size.cols),
       };
-      this.grid = normalizeGrid(play.grid0, this.boardSize.rows, this.boardSize.cols);
+      const fromStep = Math.max(0, Math.min(Math.floor(getResumeStep()), play.cascades.length));
+      const shownSteps = play.cascades.slice(0, fromStep);
+      shownSteps.forEach((step, idx) => {
+        if (step.bonus) this.triggeredBonusSteps.add(idx);
+      });
+      const shownGrid = shownSteps.reduce(applyCascadeStep, play.grid0);
+      this.grid = normalizeGrid(shownGrid, this.boardSize.rows, this.boardSize.cols);
       this.header?.setText(`Play ${play.playId} - ${play.mode.toUpperCase()} - Win 0`);
       this.drawGrid(this.grid);
       const introDuration = this.playBoardIntro();
@@ -923,14 +1005,22 @@ function createBoardScene(
           return;
         }
         if (idx >= play.cascades.length) {
-          gameBus.emit("game:cascade:completed", { playId: play.playId, totalSteps: play.cascades.length });
+          this.finishCascade(play);
           return;
         }
         this.animateStep(play.cascades[idx], idx, play.cascades.length, () => {
           this.time.delayedCall(250, () => runStep(idx + 1));
         });
       };
-      this.time.delayedCall(initialDelay, () => runStep(0));
+      this.time.delayedCall(initialDelay, () => {
+        // A resumed ticket pays what was already shown in one go, then animates the rest.
+        const shownWin = cascadeWin({ ...play, cascades: shownSteps });
+        if (shownWin > 0) {
+          this.accumulatedWin = shownWin;
+          gameBus.emit("game:win:increment", { playId: play.playId, amount: shownWin });
+        }
+        runStep(fromStep);
+      });
     }
 
     private animateStep(
@@ -960,6 +1050,7 @@ function createBoardScene(
         const triggerCount = Math.max(1, Math.min(BONUS_HIGHLIGHT_LIMIT, step.bonusData?.triggerCount ?? BONUS_HIGHLIGHT_LIMIT));
         this.playBonusTriggerHighlight(triggerCount, step.bonusData?.triggerCells, () => {
           if (this.currentPlay?.playId) {
+            this.triggeredBonusSteps.add(stepIndex);
             gameBus.emit("game:bonus:triggered", {
               playId: this.currentPlay.playId,
               bonusData: step.bonusData,
@@ -1174,7 +1265,7 @@ function createBoardScene(
   };
 }
 
-export function PhaserBoard({ play, mode, symbolPaytable, previewSize, fillMode }: Props) {
+export function PhaserBoard({ play, mode, symbolPaytable, previewSize, fillMode, turbo, resumeStep }: Props) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const gameRef = useRef<PhaserTypes.Game | null>(null);
   const phaserRef = useRef<PhaserModule | null>(null);
@@ -1184,6 +1275,8 @@ export function PhaserBoard({ play, mode, symbolPaytable, previewSize, fillMode
   const modeRef = useRef<GameMode | undefined>(mode);
   const previewSizeRef = useRef<GridSize | undefined>(previewSize);
   const fillModeRef = useRef<FillMode | undefined>(fillMode);
+  const turboRef = useRef(Boolean(turbo));
+  const resumeStepRef = useRef(resumeStep ?? 0);
   const symbolColorRef = useRef<Map<string, string>>(new Map());
   const currentSize = pickBoardSize(play, mode, previewSize);
   const aspectRatio = Math.max(0.5, currentSize.cols / Math.max(1, currentSize.rows));
@@ -1204,6 +1297,15 @@ export function PhaserBoard({ play, mode, symbolPaytable, previewSize, fillMode
     fillModeRef.current = fillMode;
   }, [fillMode]);
 
+  useEffect(() => {
+    resumeStepRef.current = resumeStep ?? 0;
+  }, [resumeStep]);
+
+  useEffect(() => {
+    turboRef.current = Boolean(turbo);
+    gameRef.current?.scene.getScene("BoardScene")?.events.emit("speed-changed");
+  }, [turbo]);
+
   useEffect(() => {
     const map = new Map<string, string>();
     (symbolPaytable ?? []).forEach((entry) => {
@@ -1259,6 +1361,8 @@ export function PhaserBoard({ play, mode, symbolPaytable, previewSize, fillMode
         () => previewSizeRef.current,
         () => fillModeRef.current,
         (symbol) => symbolColorRef.current.get(symbol) ?? "#e2e8f0",
+        () => turboRef.current,
+        () => resumeStepRef.current,
       );
 
       gameRef.current = new Phaser.Game({
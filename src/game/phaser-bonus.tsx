@@ -0,0 +1,365 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type * as PhaserTypes from "phaser";
+import type { BonusCell } from "@/api/types";
+import type { BonusSession } from "@/game/bonus-session";
+import { gameBus } from "@/game/events";
+
+type Props = {
+  session: BonusSession | null;
+  /** Plays the shots faster, like the board. */
+  turbo?: boolean;
+};
+
+type PhaserModule = typeof import("phaser");
+type ShipLook = "hidden" | BonusCell["type"];
+
+const SCENE_WIDTH = 640;
+const SCENE_HEIGHT = 360;
+const WATERLINE = 200;
+const TURBO_TIME_SCALE = 2.5;
+const SHIP_INTRO_DURATION = 700;
+const SHOT_DURATION = 520;
+const CANNON = { x: SCENE_WIDTH / 2, y: SCENE_HEIGHT - 34, barrel: 58 };
+// Keeps the barrel pointing at the sea, never below the horizon line of the cannon.
+const MIN_AIM = -Math.PI + 0.25;
+const MAX_AIM = -0.25;
+
+const shipColors: Record<ShipLook, { hull: number; sail: number; text: string }> = {
+  hidden: { hull: 0x7c4a1e, sail: 0xf8fafc, text: "#0f172a" },
+  prize: { hull: 0xb45309, sail: 0xfde68a, text: "#78350f" },
+  end: { hull: 0x111827, sail: 0x1f2937, text: "#f8fafc" },
+  "level-up": { hull: 0x6d28d9, sail: 0xc4b5fd, text: "#2e1065" },
+};
+
+function shipLabel(cell: BonusCell, endCode: string): string {
+  if (cell.type === "level-up") return "PULPO";
+  return cell.type === "prize" ? `x${cell.multiplier}` : endCode;
+}
+
+function createBonusScene(Phaser: PhaserModule, getSession: () => BonusSession | null, getTurbo: () => boolean) {
+  return class BonusScene extends Phaser.Scene {
+    private ships: Phaser.GameObjects.Container[] = [];
+    private barrel?: Phaser.GameObjects.Rectangle;
+    private hint?: Phaser.GameObjects.Text;
+    /** `playId-round` of the ships on screen. */
+    private shownRound?: string;
+    /** Round this scene fired on; only that reveal is animated, any other one is drawn as is. */
+    private firedRound?: string;
+    private busy = false;
+
+    constructor() {
+      super("BonusScene");
+    }
+
+    create() {
+      this.drawSea();
+      this.drawCannon();
+      this.hint = this.add.text(SCENE_WIDTH / 2, 18, "", {
+        fontFamily: "var(--font-geist-sans)",
+        fontSize: "16px",
+        color: "#e2e8f0",
+      });
+      this.hint.setOrigin(0.5, 0);
+
+      this.input.on("pointermove", (pointer: Phaser.Input.Pointer) => {
+        if (!this.busy) this.aimAt(pointer.x, pointer.y);
+      });
+      this.events.on("session-changed", () => this.renderSession(getSession()));
+      this.events.on("speed-changed", () => this.applySpeed());
+      this.applySpeed();
+      this.renderSession(getSession());
+    }
+
+    private applySpeed() {
+      const scale = getTurbo() ? TURBO_TIME_SCALE : 1;
+      this.time.timeScale = scale;
+      this.tweens.timeScale = scale;
+    }
+
+    private drawSea() {
+      const sky = this.add.graphics();
+      sky.fillGradientStyle(0x0b1224, 0x0b1224, 0x1e3a5f, 0x1e3a5f, 1);
+      sky.fillRect(0, 0, SCENE_WIDTH, WATERLINE);
+      const sea = this.add.graphics();
+      sea.fillGradientStyle(0x0369a1, 0x0369a1, 0x082f49, 0x082f49, 1);
+      sea.fillRect(0, WATERLINE, SCENE_WIDTH, SCENE_HEIGHT - WATERLINE);
+      for (let idx = 0; idx < 4; idx += 1) {
+        const y = WATERLINE + 24 + idx * 30;
+        const wave = this.add.rectangle(SCENE_WIDTH / 2, y, SCENE_WIDTH * 0.8, 2, 0x7dd3fc, 0.2);
+        this.tweens.add({
+          targets: wave,
+          x: SCENE_WIDTH / 2 + (idx % 2 === 0 ? 24 : -24),
+          duration: 1600 + idx * 200,
+          yoyo: true,
+          repeat: -1,
+          ease: "Sine.easeInOut",
+        });
+      }
+    }
+
+    private drawCannon() {
+      this.barrel = this.add.rectangle(CANNON.x, CANNON.y, CANNON.barrel, 18, 0x334155);
+      this.barrel.setOrigin(0, 0.5);
+      this.barrel.setStrokeStyle(2, 0x94a3b8);
+      this.barrel.setRotation(-Math.PI / 2);
+      this.add.circle(CANNON.x, CANNON.y, 24, 0x1e293b).setStrokeStyle(3, 0x94a3b8);
+      this.add.rectangle(CANNON.x, CANNON.y + 22, 76, 14, 0x475569);
+    }
+
+    private aimAt(x: number, y: number) {
+      const angle = Phaser.Math.Angle.Between(CANNON.x, CANNON.y, x, y);
+      this.barrel?.setRotation(Phaser.Math.Clamp(angle, MIN_AIM, MAX_AIM));
+    }
+
+    private barrelTip() {
+      const rotation = this.barrel?.rotation ?? -Math.PI / 2;
+      return { x: CANNON.x + Math.cos(rotation) * CANNON.barrel, y: CANNON.y + Math.sin(rotation) * CANNON.barrel };
+    }
+
+    private renderSession(session: BonusSession | null) {
+      if (!session) {
+        this.clearShips();
+        this.shownRound = undefined;
+        this.hint?.setText("");
+        return;
+      }
+      const roundKey = `${session.playId}-${session.round}`;
+      if (roundKey !== this.shownRound) {
+        this.shownRound = roundKey;
+        this.firedRound = undefined;
+        this.launchShips(session);
+      }
+      if (session.revealedIndex === undefined || !session.revealedCell) {
+        const level = session.maxLevel > 1 ? ` (nivel ${session.level}/${session.maxLevel})` : "";
+        this.hint?.setText(`Ronda ${session.round}${level}: apunta y dispara a un barco`);
+        return;
+      }
+      if (this.firedRound === roundKey) {
+        this.firedRound = undefined;
+        this.fire(session, session.revealedIndex, session.revealedCell);
+      } else if (!this.busy) {
+        this.revealAll(session);
+      }
+    }
+
+    private clearShips() {
+      this.tweens.killTweensOf(this.ships);
+      this.ships.forEach((ship) => ship.destroy());
+      this.ships = [];
+      this.busy = false;
+    }
+
+    private launchShips(session: BonusSession) {
+      this.clearShips();
+      const revealed = session.revealedIndex !== undefined;
+      this.busy = !revealed;
+      this.ships = session.cells.map((_, idx) => {
+        const targetX = (SCENE_WIDTH * (idx + 1)) / (session.cells.length + 1);
+        const ship = this.createShip(revealed ? targetX : SCENE_WIDTH + 90 + idx * 120, WATERLINE);
+        ship.on("pointerdown", () => this.onShipPicked(idx, ship));
+        this.tweens.add({
+          targets: ship,
+          x: targetX,
+          duration: revealed ? 0 : SHIP_INTRO_DURATION,
+          delay: revealed ? 0 : idx * 120,
+          ease: "Cubic.easeOut",
+          onComplete: () => {
+            this.tweens.add({ targets: ship, y: WATERLINE + 4, duration: 900, yoyo: true, repeat: -1 });
+            if (idx === session.cells.length - 1 && !revealed) this.busy = false;
+          },
+        });
+        return ship;
+      });
+    }
+
+    private createShip(x: number, y: number) {
+      const hull = this.add.graphics();
+      const sail = this.add.graphics();
+      const mast = this.add.rectangle(0, -34, 4, 64, 0x3f2a14);
+      const label = this.add.text(4, -36, "?", {
+        fontFamily: "var(--font-geist-sans)",
+        fontSize: "18px",
+        fontStyle: "bold",
+        color: shipColors.hidden.text,
+      });
+      label.setOrigin(0.5);
+      const ship = this.add.container(x, y, [mast, sail, hull, label]);
+      ship.setData({ hull, sail, label });
+      ship.setSize(120, 100);
+      ship.setInteractive(new Phaser.Geom.Rectangle(0, -20, 120, 100), Phaser.Geom.Rectangle.Contains);
+      this.paintShip(ship, "hidden", "?");
+      return ship;
+    }
+
+    private paintShip(ship: Phaser.GameObjects.Container, look: ShipLook, text: string) {
+      const colors = shipColors[look];
+      const hull = ship.getData("hull") as Phaser.GameObjects.Graphics;
+      const sail = ship.getData("sail") as Phaser.GameObjects.Graphics;
+      const label = ship.getData("label") as Phaser.GameObjects.Text;
+      hull.clear();
+      hull.fillStyle(colors.hull, 1);
+      const outline = [
+        [-52, -8],
+        [52, -8],
+        [36, 16],
+        [-36, 16],
+      ].map(([x, y]) => new Phaser.Math.Vector2(x, y));
+      hull.fillPoints(outline, true);
+      sail.clear();
+      sail.fillStyle(colors.sail, 1);
+      sail.fillTriangle(4, -64, 4, -10, 46, -12);
+      sail.fillTriangle(0, -60, 0, -12, -38, -14);
+      label.setText(text);
+      label.setColor(colors.text);
+      label.setFontSize(look === "end" ? 9 : 18);
+    }
+
+    private onShipPicked(cellIndex: number, ship: Phaser.GameObjects.Container) {
+      const session = getSession();
+      if (!session || this.busy || session.revealedCell) return;
+      this.busy = true;
+      this.firedRound = `${session.playId}-${session.round}`;
+      this.aimAt(ship.x, ship.y - 20);
+      this.hint?.setText("Fuego!");
+      gameBus.emit("game:bonus:pick", { playId: session.playId, round: session.round, cellIndex });
+    }
+
+    private fire(session: BonusSession, cellIndex: number, cell: BonusCell) {
+      const ship = this.ships[cellIndex];
+      if (!ship) return;
+      this.busy = true;
+      const tip = this.barrelTip();
+      const flash = this.add.circle(tip.x, tip.y, 14, 0xfde68a, 0.9);
+      this.tweens.add({ targets: flash, scale: 2, alpha: 0, duration: 200, onComplete: () => flash.destroy() });
+
+      const hit = cell.type !== "end";
+      const ball = this.add.circle(tip.x, tip.y, 7, 0x0f172a).setStrokeStyle(2, 0x94a3b8);
+      this.tweens.add({
+        targets: ball,
+        x: hit ? ship.x : ship.x + 46,
+        y: hit ? ship.y - 10 : ship.y + 20,
+        scale: 0.6,
+        duration: SHOT_DURATION,
+        ease: "Quad.easeOut",
+        onComplete: () => {
+          ball.destroy();
+          if (cell.type === "prize") this.playHit(ship, cell, session.endCode);
+          else if (cell.type === "level-up") this.playLevelUp(ship, cell, session);
+          else this.playMiss(ship, cell, session.endCode);
+          this.time.delayedCall(1100, () => {
+            this.revealAll(session);
+            this.busy = false;
+            gameBus.emit("game:bonus:shot", { playId: session.playId, round: session.round });
+          });
+        },
+      });
+    }
+
+    private playHit(ship: Phaser.GameObjects.Container, cell: BonusCell, endCode: string) {
+      const blast = this.add.circle(ship.x, ship.y - 10, 18, 0xf97316, 0.95);
+      blast.setBlendMode(Phaser.BlendModes.ADD);
+      this.tweens.add({ targets: blast, scale: 3, alpha: 0, duration: 420, onComplete: () => blast.destroy() });
+      this.paintShip(ship, "prize", shipLabel(cell, endCode));
+      this.hint?.setText(`Hundido! Premio x${cell.multiplier}`);
+      this.tweens.killTweensOf(ship);
+      this.tweens.add({ targets: ship, y: ship.y + 46, angle: 16, alpha: 0.45, delay: 300, duration: 900 });
+    }
+
+    private playLevelUp(ship: Phaser.GameObjects.Container, cell: BonusCell, session: BonusSession) {
+      const ink = this.add.circle(ship.x, ship.y - 10, 18, 0x7c3aed, 0.95);
+      ink.setBlendMode(Phaser.BlendModes.ADD);
+      this.tweens.add({ targets: ink, scale: 3.4, alpha: 0, duration: 520, onComplete: () => ink.destroy() });
+      this.paintShip(ship, "level-up", shipLabel(cell, session.endCode));
+      this.hint?.setText(`Le diste al pulpo! Premios de nivel ${session.level}`);
+      this.tweens.add({ targets: ship, y: ship.y - 18, duration: 220, yoyo: true, repeat: 2, ease: "Sine.easeOut" });
+    }
+
+    private playMiss(ship: Phaser.GameObjects.Container, cell: BonusCell, endCode: string) {
+      for (let idx = 0; idx < 3; idx += 1) {
+        const splash = this.add.circle(ship.x + 46, ship.y + 20, 6, 0xbae6fd, 0.8);
+        splash.setStrokeStyle(2, 0xe0f2fe, 0.9);
+        this.tweens.add({
+          targets: splash,
+          scale: 3 + idx,
+          alpha: 0,
+          delay: idx * 120,
+          duration: 480,
+          onComplete: () => splash.destroy(),
+        });
+      }
+      this.paintShip(ship, "end", shipLabel(cell, endCode));
+      this.hint?.setText("Agua... aparecio el barco de fin de bonus");
+      this.tweens.add({ targets: ship, scale: 1.15, duration: 260, yoyo: true, repeat: 1 });
+    }
+
+    /** Shows what every ship carried, with the revealed one standing out. */
+    private revealAll(session: BonusSession) {
+      session.cells.forEach((cell, idx) => {
+        const ship = this.ships[idx];
+        if (!ship) return;
+        this.paintShip(ship, cell.type, shipLabel(cell, session.endCode));
+        if (idx !== session.revealedIndex) ship.setAlpha(0.55);
+      });
+      const revealed = session.revealedCell;
+      if (revealed?.type === "prize") this.hint?.setText(`Premio x${revealed.multiplier}`);
+      if (revealed?.type === "level-up") this.hint?.setText(`Nivel de premio ${session.level}/${session.maxLevel}`);
+      if (revealed?.type === "end") this.hint?.setText("Fin del bonus");
+    }
+  };
+}
+
+export function PhaserBonus({ session, turbo }: Props) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const gameRef = useRef<PhaserTypes.Game | null>(null);
+  const sessionRef = useRef<BonusSession | null>(session);
+  const turboRef = useRef(Boolean(turbo));
+
+  useEffect(() => {
+    sessionRef.current = session;
+    gameRef.current?.scene.getScene("BonusScene")?.events.emit("session-changed");
+  }, [session]);
+
+  useEffect(() => {
+    turboRef.current = Boolean(turbo);
+    gameRef.current?.scene.getScene("BonusScene")?.events.emit("speed-changed");
+  }, [turbo]);
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !containerRef.current || gameRef.current) {
+      return;
+    }
+    let canceled = false;
+
+    (async () => {
+      const Phaser = await import("phaser");
+      if (canceled || !containerRef.current) return;
+      const BonusScene = createBonusScene(
+        Phaser,
+        () => sessionRef.current,
+        () => turboRef.current,
+      );
+      gameRef.current = new Phaser.Game({
+        type: Phaser.AUTO,
+        scale: {
+          mode: Phaser.Scale.FIT,
+          autoCenter: Phaser.Scale.CENTER_HORIZONTALLY,
+          width: SCENE_WIDTH,
+          height: SCENE_HEIGHT,
+        },
+        parent: containerRef.current,
+        backgroundColor: "#0b1224",
+        scene: new BonusScene(),
+      });
+    })();
+
+    return () => {
+      canceled = true;
+      gameRef.current?.destroy(true);
+      gameRef.current = null;
+    };
+  }, []);
+
+  return <div ref={containerRef} style={{ width: "100%", aspectRatio: `${SCENE_WIDTH} / ${SCENE_HEIGHT}` }} />;
+}
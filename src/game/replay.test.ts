@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { readPendingPlay, savePendingPlay, updatePendingPlay } from "@/api/pending-play";
+import type { PlayOutcome } from "@/api/types";
+import { applyBalance, applyPurchase, creditWin, getWallet } from "@/api/wallet";
+import { gameBus } from "./events";
+import { asReplay, originalPlayId } from "./replay";
+import { createStateMachine } from "./state-machine";
+
+const play: PlayOutcome = {
+  playId: "play-1",
+  mode: "nivel1",
+  bet: 100,
+  grid0: [["A", "A"]],
+  cascades: [{ removeCells: [{ row: 0, col: 0 }], dropIn: [{ col: 0, symbols: ["B"] }], winStep: 50 }],
+  totalWin: 50,
+};
+
+describe("ticket replay", () => {
+  const unsubscribers: (() => void)[] = [];
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+  });
+
+  it("leaves the ticket in play alone while that same ticket is replayed", () => {
+    const machine = createStateMachine("REVEAL");
+    applyBalance({ balance: 1000 });
+    applyPurchase(play.bet, play);
+    savePendingPlay({ play, completedSteps: 0 });
+    let displayedWin = 0;
+    // The ticket in play listens the way the page does, by playId.
+    unsubscribers.push(
+      gameBus.on("game:win:increment", ({ playId, amount }) => {
+        if (playId === play.playId) displayedWin += amount;
+      }),
+      gameBus.on("game:cascade:step", ({ playId, stepIndex }) => {
+        if (playId !== play.playId) return;
+        machine.transition("CASCADE_LOOP");
+        updatePendingPlay(playId, { completedSteps: stepIndex - 1 });
+      }),
+      gameBus.on("game:cascade:completed", ({ playId }) => {
+        if (playId !== play.playId) return;
+        machine.transition("END_TICKET");
+        creditWin();
+      }),
+    );
+
+    // What the replay board emits while it plays the ticket back.
+    const replay = asReplay(play);
+    gameBus.emit("game:cascade:step", { playId: replay.playId, stepIndex: 1, totalSteps: 1 });
+    gameBus.emit("game:win:increment", { playId: replay.playId, amount: 50 });
+    gameBus.emit("game:cascade:completed", { playId: replay.playId, totalSteps: 1 });
+
+    expect(machine.state).toBe("REVEAL");
+    expect(displayedWin).toBe(0);
+    expect(getWallet()).toMatchObject({ balance: 900, pendingCredit: 50 });
+    expect(readPendingPlay()).toEqual({ play, completedSteps: 0 });
+  });
+
+  it("keeps the sold id at hand and does not scope a replay twice", () => {
+    const replay = asReplay(play);
+    expect(replay.playId).not.toBe(play.playId);
+    expect(originalPlayId(replay.playId)).toBe(play.playId);
+    expect(asReplay(replay)).toBe(replay);
+  });
+});
@@ -0,0 +1,16 @@
+import type { PlayOutcome } from "@/api/types";
+
+const REPLAY_ID_PREFIX = "replay:";
+
+/**
+ * The ticket as a replay board plays it: the same outcome under a replay-scoped id, so the events that board emits
+ * never reach the listeners of the ticket in play, which would credit, end or store it a second time.
+ */
+export function asReplay(play: PlayOutcome): PlayOutcome {
+  return play.playId.startsWith(REPLAY_ID_PREFIX) ? play : { ...play, playId: `${REPLAY_ID_PREFIX}${play.playId}` };
+}
+
+/** The id the replayed ticket was sold under. */
+export function originalPlayId(playId: string): string {
+  return playId.startsWith(REPLAY_ID_PREFIX) ? playId.slice(REPLAY_ID_PREFIX.length) : playId;
+}
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  checkPurchase,
+  createSessionStats,
+  loadSessionStats,
+  nextRealityCheckAt,
+  readCoolOffUntil,
+  recordPurchase,
+  saveSessionStats,
+  startCoolOff,
+} from "./responsible-gaming";
+
+const limits = { realityCheckMinutes: 30, sessionLossLimit: 1000, sessionBetLimit: 5000 };
+
+describe("responsible gaming", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+  });
+
+  it("blocks purchases that could pass the loss or bet limit", () => {
+    let stats = createSessionStats(0);
+    expect(checkPurchase(limits, stats, 1000, null)).toBeNull();
+
+    stats = recordPurchase(stats, 800, 0);
+    expect(checkPurchase(limits, stats, 200, null)).toBeNull();
+    expect(checkPurchase(limits, stats, 300, null)).toEqual({ reason: "loss_limit", limit: 1000 });
+
+    stats = recordPurchase(stats, 4000, 4500);
+    expect(checkPurchase(limits, stats, 500, null)).toEqual({ reason: "bet_limit", limit: 5000 });
+    expect(checkPurchase(undefined, stats, 500, null)).toBeNull();
+  });
+
+  it("schedules reality checks on whole intervals since the session started", () => {
+    const minute = 60000;
+    expect(nextRealityCheckAt(limits, 0, 0)).toBe(30 * minute);
+    expect(nextRealityCheckAt(limits, 0, 30 * minute)).toBe(60 * minute);
+    expect(nextRealityCheckAt(limits, 0, 45 * minute)).toBe(60 * minute);
+    expect(nextRealityCheckAt({}, 0, 0)).toBeNull();
+  });
+
+  it("keeps session totals across reloads of the tab", () => {
+    saveSessionStats(recordPurchase(createSessionStats(10), 300, 100));
+    expect(loadSessionStats(99)).toEqual({ startedAt: 10, totalBet: 300, totalWin: 100 });
+  });
+
+  it("holds a cool-off until it ends and never shortens it", () => {
+    const until = startCoolOff(60, 0);
+    expect(startCoolOff(15, 0)).toBe(until);
+    expect(readCoolOffUntil(until - 1)).toBe(until);
+    expect(checkPurchase(limits, createSessionStats(0), 100, until)).toEqual({ reason: "cool_off", until });
+    expect(readCoolOffUntil(until)).toBeNull();
+    expect(window.localStorage.length).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import type { ResponsibleGamingConfig } from "@/api/types";
+
+// Session totals live as long as the tab; a self-imposed break survives reloads and new tabs.
+const STATS_STORAGE_KEY = "piloto_play_session";
+const COOL_OFF_STORAGE_KEY = "piloto_cool_off_until";
+const MINUTE_MS = 60000;
+
+export interface PlaySessionStats {
+  startedAt: number;
+  totalBet: number;
+  totalWin: number;
+}
+
+export type LimitBlock =
+  | { reason: "cool_off"; until: number }
+  | { reason: "bet_limit"; limit: number }
+  | { reason: "loss_limit"; limit: number };
+
+function getStorage(kind: "localStorage" | "sessionStorage"): Storage | null {
+  try {
+    return typeof window === "undefined" ? null : window[kind];
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(storage: Storage | null, key: string, value: string | null) {
+  try {
+    if (value === null) storage?.removeItem(key);
+    else storage?.setItem(key, value);
+  } catch {
+    // Storage can be disabled; the safeguards then only last as long as the page.
+  }
+}
+
+export function createSessionStats(now = Date.now()): PlaySessionStats {
+  return { startedAt: now, totalBet: 0, totalWin: 0 };
+}
+
+/** Picks up the totals of this tab's session so a reload does not reset the limits. */
+export function loadSessionStats(now = Date.now()): PlaySessionStats {
+  const raw = getStorage("sessionStorage")?.getItem(STATS_STORAGE_KEY);
+  if (!raw) return createSessionStats(now);
+  try {
+    const stats = JSON.parse(raw) as PlaySessionStats;
+    const valid = [stats.startedAt, stats.totalBet, stats.totalWin].every((value) => Number.isFinite(value));
+    return valid ? stats : createSessionStats(now);
+  } catch {
+    return createSessionStats(now);
+  }
+}
+
+export function saveSessionStats(stats: PlaySessionStats) {
+  writeStorage(getStorage("sessionStorage"), STATS_STORAGE_KEY, JSON.stringify(stats));
+}
+
+export function recordPurchase(stats: PlaySessionStats, cost: number, win: number): PlaySessionStats {
+  return { ...stats, totalBet: stats.totalBet + cost, totalWin: stats.totalWin + Math.max(0, win) };
+}
+
+export function sessionLoss(stats: PlaySessionStats): number {
+  return Math.max(0, stats.totalBet - stats.totalWin);
+}
+
+/**
+ * Says why a purchase of `cost` must not go ahead, or null when it may. Limits are checked against the worst case,
+ * a ticket that wins nothing, so no purchase can carry the session past them.
+ */
+export function checkPurchase(
+  config: ResponsibleGamingConfig | undefined,
+  stats: PlaySessionStats,
+  cost: number,
+  coolOffUntil: number | null,
+): LimitBlock | null {
+  if (coolOffUntil !== null) return { reason: "cool_off", until: coolOffUntil };
+  const betLimit = config?.sessionBetLimit;
+  if (betLimit !== undefined && stats.totalBet + cost > betLimit) return { reason: "bet_limit", limit: betLimit };
+  const lossLimit = config?.sessionLossLimit;
+  if (lossLimit !== undefined && sessionLoss(stats) + cost > lossLimit) {
+    return { reason: "loss_limit", limit: lossLimit };
+  }
+  return null;
+}
+
+/** Reality checks fall on whole intervals since the session started; null when they are disabled. */
+export function nextRealityCheckAt(
+  config: ResponsibleGamingConfig | undefined,
+  startedAt: number,
+  now = Date.now(),
+): number | null {
+  const minutes = config?.realityCheckMinutes;
+  if (!minutes || minutes <= 0) return null;
+  const interval = minutes * MINUTE_MS;
+  return startedAt + (Math.floor(Math.max(0, now - startedAt) / interval) + 1) * interval;
+}
+
+/** End of the current cool-off, or null when none is running. Expired breaks are cleared on read. */
+export function readCoolOffUntil(now = Date.now()): number | null {
+  const storage = getStorage("localStorage");
+  const until = Number(storage?.getItem(COOL_OFF_STORAGE_KEY) ?? NaN);
+  if (!Number.isFinite(until)) return null;
+  if (until > now) return until;
+  writeStorage(storage, COOL_OFF_STORAGE_KEY, null);
+  return null;
+}
+
+/** Starts a break; a running one is only ever extended, never shortened. */
+export function startCoolOff(minutes: number, now = Date.now()): number {
+  const until = Math.max(now + minutes * MINUTE_MS, readCoolOffUntil(now) ?? 0);
+  writeStorage(getStorage("localStorage"), COOL_OFF_STORAGE_KEY, String(until));
+  return until;
+}
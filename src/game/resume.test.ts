@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { gameBus } from "./events";
+import { onResumeApplied } from "./resume";
+
+describe("onResumeApplied", () => {
+  it("fires once, when the resumed ticket moves past its step", () => {
+    let applied = 0;
+    onResumeApplied("play-1", () => (applied += 1));
+
+    gameBus.emit("game:win:increment", { playId: "play-1", amount: 50 });
+    gameBus.emit("game:cascade:step", { playId: "play-0", stepIndex: 1, totalSteps: 2 });
+    expect(applied).toBe(0);
+
+    gameBus.emit("game:cascade:step", { playId: "play-1", stepIndex: 2, totalSteps: 2 });
+    gameBus.emit("game:cascade:completed", { playId: "play-1", totalSteps: 2 });
+    expect(applied).toBe(1);
+  });
+
+  it("also fires when the ticket had no steps left to animate", () => {
+    let applied = false;
+    onResumeApplied("play-1", () => (applied = true));
+    gameBus.emit("game:cascade:completed", { playId: "play-1", totalSteps: 1 });
+    expect(applied).toBe(true);
+  });
+});
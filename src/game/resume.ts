@@ -0,0 +1,21 @@
+import { gameBus } from "./events";
+
+/**
+ * Calls back once the board has picked a resumed ticket up from its step: on the first step it animates after it,
+ * or on completion when nothing was left. Until then the board may restart the ticket from that step; afterwards a
+ * restart from it would pay the shown win a second time.
+ */
+export function onResumeApplied(playId: string, callback: () => void): () => void {
+  const stop = () => {
+    offStep();
+    offCompleted();
+  };
+  const applied = (event: { playId: string }) => {
+    if (event.playId !== playId) return;
+    stop();
+    callback();
+  };
+  const offStep = gameBus.on("game:cascade:step", applied);
+  const offCompleted = gameBus.on("game:cascade:completed", applied);
+  return stop;
+}
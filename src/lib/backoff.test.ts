@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { computeBackoffDelay, DEFAULT_BACKOFF } from "./backoff";
+
+const noJitter = { ...DEFAULT_BACKOFF, jitter: 0 };
+
+describe("computeBackoffDelay", () => {
+  it("grows exponentially and caps at maxDelayMs", () => {
+    expect(computeBackoffDelay(0, noJitter)).toBe(500);
+    expect(computeBackoffDelay(1, noJitter)).toBe(1000);
+    expect(computeBackoffDelay(3, noJitter)).toBe(4000);
+    expect(computeBackoffDelay(10, noJitter)).toBe(15000);
+  });
+
+  it("keeps jittered delays within the configured spread", () => {
+    expect(computeBackoffDelay(2, DEFAULT_BACKOFF, () => 0)).toBe(1000);
+    expect(computeBackoffDelay(2, DEFAULT_BACKOFF, () => 0.999999)).toBe(2000);
+  });
+});
@@ -0,0 +1,28 @@
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+  /** Fraction of the delay (0..1) that is randomized to spread reconnect storms. */
+  jitter: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+  factor: 2,
+  jitter: 0.5,
+  maxAttempts: 8,
+};
+
+export function computeBackoffDelay(
+  attempt: number,
+  options: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random,
+): number {
+  const exponential = options.baseDelayMs * Math.pow(options.factor, Math.max(0, attempt));
+  const capped = Math.min(options.maxDelayMs, exponential);
+  const jitter = Math.max(0, Math.min(1, options.jitter));
+  const spread = capped * jitter;
+  return Math.round(capped - spread + random() * spread);
+}
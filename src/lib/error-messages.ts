@@ -0,0 +1,45 @@
+import type { ApiClientError, ApiErrorKind } from "@/api/errors";
+
+export type RecoveryAction = "retry" | "change-bet" | "reload" | "none";
+
+export interface ErrorNotice {
+  kind: ApiErrorKind;
+  message: string;
+  action: RecoveryAction;
+  actionLabel?: string;
+}
+
+const ACTION_LABELS: Record<RecoveryAction, string | undefined> = {
+  retry: "Reintentar",
+  "change-bet": "Cambiar monto",
+  reload: "Volver a ingresar",
+  none: undefined,
+};
+
+const NOTICES: Record<ApiErrorKind, { message: string; action: RecoveryAction }> = {
+  timeout: {
+    message: "El servidor tardo demasiado en responder. Si reintentas no se cobrara el ticket dos veces.",
+    action: "retry",
+  },
+  disconnected: { message: "Se perdio la conexion con el servidor.", action: "retry" },
+  validation: { message: "El servidor rechazo la solicitud. Revisa el monto seleccionado.", action: "change-bet" },
+  insufficient_funds: { message: "Saldo insuficiente para este ticket.", action: "change-bet" },
+  session_expired: { message: "Tu sesion expiro. Ingresa nuevamente para seguir jugando.", action: "reload" },
+  rate_limited: { message: "Demasiadas solicitudes seguidas. Espera un momento.", action: "retry" },
+  maintenance: { message: "El juego esta en mantenimiento. Vuelve a intentarlo mas tarde.", action: "none" },
+  cancelled: { message: "La solicitud fue cancelada.", action: "none" },
+  incompatible: {
+    message: "Hay una nueva version del juego. Actualiza la pagina para seguir jugando.",
+    action: "reload",
+  },
+  unknown: { message: "Ocurrio un error inesperado.", action: "retry" },
+};
+
+export function describeApiError(error: ApiClientError, fallbackMessage?: string): ErrorNotice {
+  const notice = NOTICES[error.kind];
+  let message = error.kind === "unknown" && fallbackMessage ? fallbackMessage : notice.message;
+  if (error.kind === "rate_limited" && error.retryAfterMs) {
+    message = `${message} Reintenta en ${Math.ceil(error.retryAfterMs / 1000)} s.`;
+  }
+  return { kind: error.kind, message, action: notice.action, actionLabel: ACTION_LABELS[notice.action] };
+}
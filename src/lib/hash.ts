@@ -0,0 +1,9 @@
+/** FNV-1a over UTF-16 code units; fast and stable, not meant for anything security related. */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { createLatencyWindow } from "./latency";
+
+describe("createLatencyWindow", () => {
+  it("returns null until a sample is recorded", () => {
+    expect(createLatencyWindow().stats()).toBeNull();
+  });
+
+  it("summarizes the recorded samples", () => {
+    const window = createLatencyWindow();
+    [120, 80, 100, 300, 90].forEach((ms) => window.record(ms));
+    expect(window.stats()).toEqual({
+      count: 5,
+      lastMs: 90,
+      minMs: 80,
+      maxMs: 300,
+      avgMs: 138,
+      p50Ms: 100,
+      p95Ms: 300,
+    });
+  });
+
+  it("keeps only the most recent samples and ignores invalid ones", () => {
+    const window = createLatencyWindow(3);
+    [500, 10, 20, 30, -1, Number.NaN].forEach((ms) => window.record(ms));
+    expect(window.stats()).toMatchObject({ count: 3, minMs: 10, maxMs: 30, lastMs: 30 });
+  });
+});
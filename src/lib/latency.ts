@@ -0,0 +1,46 @@
+export interface LatencyStats {
+  count: number;
+  lastMs: number;
+  minMs: number;
+  maxMs: number;
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+}
+
+export interface LatencyWindow {
+  record(ms: number): void;
+  stats(): LatencyStats | null;
+}
+
+function percentile(sorted: number[], ratio: number): number {
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil(ratio * sorted.length) - 1));
+  return sorted[idx];
+}
+
+/** Rolling window of the most recent samples; older samples drop out so stats follow the current network. */
+export function createLatencyWindow(size = 50): LatencyWindow {
+  const samples: number[] = [];
+
+  return {
+    record(ms) {
+      if (!Number.isFinite(ms) || ms < 0) return;
+      samples.push(ms);
+      if (samples.length > size) samples.shift();
+    },
+    stats() {
+      if (samples.length === 0) return null;
+      const sorted = [...samples].sort((a, b) => a - b);
+      const total = samples.reduce((sum, value) => sum + value, 0);
+      return {
+        count: samples.length,
+        lastMs: samples[samples.length - 1],
+        minMs: sorted[0],
+        maxMs: sorted[sorted.length - 1],
+        avgMs: Math.round(total / samples.length),
+        p50Ms: percentile(sorted, 0.5),
+        p95Ms: percentile(sorted, 0.95),
+      };
+    },
+  };
+}
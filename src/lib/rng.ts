@@ -0,0 +1,25 @@
+import { hashString } from "./hash";
+
+export type Rng = () => number;
+
+/** Mulberry32: small, fast and reproducible across browsers and Node for the same seed. */
+export function createRng(seed: string | number): Rng {
+  let state = typeof seed === "number" ? seed >>> 0 : hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function pickWeighted<T>(entries: readonly { value: T; weight: number }[], rng: Rng): T {
+  const total = entries.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+  let roll = rng() * total;
+  for (const entry of entries) {
+    roll -= Math.max(0, entry.weight);
+    if (roll < 0) return entry.value;
+  }
+  return entries[entries.length - 1].value;
+}
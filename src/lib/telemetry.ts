@@ -1,12 +1,23 @@
+import { getSessionId } from "@/api/session";
 import { gameBus } from "@/game/events";
-
-const sessionId =
-  typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `session-${Date.now()}`;
+import { createLatencyWindow, type LatencyWindow } from "./latency";
 
 function log(event: string, payload: unknown) {
   // Basic console logger with correlation id; can be replaced by real collector.
   // eslint-disable-next-line no-console
-  console.info(`[telemetry] ${event}`, { sessionId, payload, ts: new Date().toISOString() });
+  console.info(`[telemetry] ${event}`, { sessionId: getSessionId(), payload, ts: new Date().toISOString() });
+}
+
+const latencyByType = new Map<string, LatencyWindow>();
+
+function logLatency(payload: { requestType: string; transport: string; ms: number; ok: boolean }) {
+  let samples = latencyByType.get(payload.requestType);
+  if (!samples) {
+    samples = createLatencyWindow();
+    latencyByType.set(payload.requestType, samples);
+  }
+  samples.record(payload.ms);
+  log("latency", { ...payload, stats: samples.stats() });
 }
 
 export function startTelemetry() {
@@ -19,10 +30,15 @@ export function startTelemetry() {
     gameBus.on("game:pack:completed", (payload) => log("game:pack:completed", payload)),
     gameBus.on("game:replay:opened", (payload) => log("replay_opened", payload)),
     gameBus.on("game:replay:closed", (payload) => log("replay_closed", payload)),
+    gameBus.on("game:config:changed", (payload) => log("config_changed", payload)),
+    gameBus.on("game:maintenance", (payload) => log("maintenance_notice", payload)),
+    gameBus.on("game:connection:state", (payload) => log("connection_state", payload)),
+    gameBus.on("game:session:state", (payload) => log("session_state", payload)),
+    gameBus.on("game:latency", logLatency),
     gameBus.on("game:error", (payload) => log("game:error", payload)),
   ];
 
-  log("game_loaded", { sessionId });
+  log("game_loaded", { sessionId: getSessionId() });
 
   return () => {
     unsubscribers.forEach((unsub) => unsub());